@@ -0,0 +1,354 @@
+import {Client} from '@notionhq/client/build/src';
+import type {IssuesDeletedEvent, IssuesEvent} from '@octokit/webhooks-definitions/schema';
+import {
+  DeletedIssuePolicy,
+  findPageForIssue,
+  getRelationsBetweenGithubAndNotionUsers,
+  graphqlWithAuth,
+  handleIssueDeleted,
+  handleIssueStateChanged,
+  handleIssueTransferred,
+} from '../src/action';
+import {PropertyMapping} from '../src/mapping';
+import {DEFAULT_STATUS_MAPPING, properties} from '../src/properties';
+import {createReport} from '../src/report';
+
+jest.mock('@actions/core', () => ({
+  ...jest.requireActual('@actions/core'),
+  getInput: jest.fn().mockReturnValue('token'),
+}));
+jest.mock('@octokit/graphql', () => ({graphql: {defaults: () => jest.fn()}}));
+
+const graphql = graphqlWithAuth as unknown as jest.Mock;
+
+const propertyMapping: PropertyMapping = [
+  {property: 'Name', type: 'title', source: 'title'},
+  {property: 'Issue', type: 'url', source: 'url'},
+  {property: 'Node ID', type: 'text', source: 'nodeId'},
+  {property: 'State', type: 'state', source: 'state'},
+  {property: 'Number', type: 'number', source: 'number'},
+  {property: 'Repository', type: 'text', source: 'repository'},
+];
+
+const issue = {url: 'https://github.com/owner/repo/issues/1', nodeId: 'I_1'};
+
+function notionPage(id: string, url: string, nodeId: string | null) {
+  return {
+    object: 'page',
+    id,
+    url: `https://www.notion.so/${id}`,
+    last_edited_time: '2024-01-02T00:00:00Z',
+    properties: {
+      Name: {type: 'title', title: [{plain_text: 'Issue 1'}]},
+      Issue: {type: 'url', url},
+      'Node ID': {type: 'rich_text', rich_text: nodeId ? [{plain_text: nodeId}] : []},
+      State: {type: 'select', select: {name: 'Open'}},
+      Number: {type: 'number', number: 1},
+      Repository: {type: 'rich_text', rich_text: [{plain_text: 'repo'}]},
+    },
+  };
+}
+
+type NodeIdUpdate = {
+  page_id: string;
+  properties?: {'Node ID'?: {rich_text: [{text: {content: string}}]}};
+};
+
+// Answers queries filtered by node ID and by URL with the pages having them, and updates storing
+// a node ID with the updated page
+function notionClient(pages: Array<ReturnType<typeof notionPage>>) {
+  const query = jest.fn(async ({filter}: {filter: Record<string, {equals: string}>}) => ({
+    results: pages.filter(page =>
+      filter.rich_text
+        ? page.properties['Node ID'].rich_text[0]?.plain_text === filter.rich_text.equals
+        : page.properties.Issue.url === filter.url.equals
+    ),
+    has_more: false,
+    next_cursor: null,
+  }));
+  return {
+    databases: {query},
+    pages: {
+      create: jest.fn().mockResolvedValue({id: 'created'}),
+      update: jest.fn(async ({page_id, properties}: NodeIdUpdate) => {
+        const page = pages.find(page => page.id === page_id);
+        const nodeId = properties?.['Node ID']?.rich_text[0].text.content;
+        return page && nodeId ? notionPage(page.id, page.properties.Issue.url, nodeId) : {};
+      }),
+    },
+    blocks: {children: {append: jest.fn().mockResolvedValue({results: []})}},
+  };
+}
+
+function findPage(client: ReturnType<typeof notionClient>, mapping = propertyMapping) {
+  return findPageForIssue(
+    {client: client as unknown as Client, databaseId: 'db', propertyMapping: mapping},
+    issue
+  );
+}
+
+describe('findPageForIssue', () => {
+  it('should find pages by node ID', async () => {
+    const client = notionClient([
+      notionPage('page', 'https://github.com/old/repo/issues/7', 'I_1'),
+    ]);
+
+    expect(await findPage(client)).toMatchObject({pageId: 'page', nodeId: 'I_1'});
+    expect(client.databases.query).toHaveBeenCalledTimes(1);
+    expect(client.pages.update).not.toHaveBeenCalled();
+  });
+
+  it('should fall back to the URL and store the node ID on the page', async () => {
+    const client = notionClient([notionPage('page', issue.url, null)]);
+
+    expect(await findPage(client)).toMatchObject({
+      pageId: 'page',
+      nodeId: 'I_1',
+      lastEditedTime: '2024-01-02T00:00:00Z',
+    });
+    expect(client.databases.query).toHaveBeenCalledTimes(2);
+    expect(client.pages.update).toHaveBeenCalledWith({
+      page_id: 'page',
+      properties: {'Node ID': properties.text('I_1')},
+    });
+  });
+
+  it('should not match a page whose URL belongs to another node ID', async () => {
+    const client = notionClient([notionPage('page', issue.url, 'I_other')]);
+
+    expect(await findPage(client)).toBeNull();
+    expect(client.pages.update).not.toHaveBeenCalled();
+  });
+
+  it('should only look pages up by URL when the node ID is not mapped', async () => {
+    const client = notionClient([notionPage('page', issue.url, null)]);
+
+    expect(await findPage(client, propertyMapping.slice(0, 2))).toMatchObject({pageId: 'page'});
+    expect(client.databases.query).toHaveBeenCalledTimes(1);
+    expect(client.pages.update).not.toHaveBeenCalled();
+  });
+
+  it('should return null for issues without a page', async () => {
+    expect(await findPage(notionClient([]))).toBeNull();
+  });
+});
+
+function issuePayload(action: string, state: 'open' | 'closed' = 'open') {
+  return {
+    action,
+    issue: {
+      html_url: issue.url,
+      node_id: issue.nodeId,
+      number: 1,
+      title: 'Issue 1',
+      body: '',
+      state,
+      assignees: [],
+      labels: [],
+      milestone: null,
+      user: {login: 'octocat'},
+      created_at: '2024-01-01T00:00:00Z',
+      updated_at: '2024-01-02T00:00:00Z',
+      closed_at: state === 'closed' ? '2024-01-02T00:00:00Z' : null,
+    },
+    repository: {name: 'repo', full_name: 'owner/repo'},
+  };
+}
+
+describe('handleIssueStateChanged', () => {
+  beforeEach(() => {
+    graphql.mockResolvedValue({repository: {issueOrPullRequest: null}});
+  });
+
+  function changeState(
+    client: ReturnType<typeof notionClient>,
+    state: 'open' | 'closed' = 'closed'
+  ) {
+    return handleIssueStateChanged({
+      notion: {
+        client: client as unknown as Client,
+        databaseId: 'db',
+        propertyMapping,
+        statusMapping: DEFAULT_STATUS_MAPPING,
+        relations: {users: null, projects: null},
+      },
+      payload: issuePayload(
+        state === 'open' ? 'reopened' : 'closed',
+        state
+      ) as unknown as IssuesEvent,
+      primaryProject: null,
+      report: createReport({usersLookupEnabled: false}),
+    });
+  }
+
+  it('should only update the state of the page', async () => {
+    const client = notionClient([notionPage('page', issue.url, 'I_1')]);
+
+    await changeState(client);
+
+    expect(client.pages.update).toHaveBeenCalledTimes(1);
+    expect(client.pages.update).toHaveBeenCalledWith({
+      page_id: 'page',
+      properties: {State: properties.getStatusSelectOption('closed')},
+    });
+  });
+
+  it('should not update pages the event changes nothing of', async () => {
+    const client = notionClient([notionPage('page', issue.url, 'I_1')]);
+
+    await changeState(client, 'open');
+
+    expect(client.pages.update).not.toHaveBeenCalled();
+  });
+
+  it('should not send the node ID again after storing it on a page found by URL', async () => {
+    const client = notionClient([notionPage('page', issue.url, null)]);
+
+    await changeState(client);
+
+    expect(client.pages.update.mock.calls.map(([params]) => params.properties)).toEqual([
+      {'Node ID': properties.text('I_1')},
+      {State: properties.getStatusSelectOption('closed')},
+    ]);
+  });
+
+  it('should create the page of issues without one', async () => {
+    const client = notionClient([]);
+
+    await changeState(client);
+
+    expect(client.pages.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        parent: {database_id: 'db'},
+        properties: expect.objectContaining({State: properties.getStatusSelectOption('closed')}),
+      })
+    );
+  });
+});
+
+describe('handleIssueDeleted', () => {
+  function deleteIssue(client: ReturnType<typeof notionClient>, policy: DeletedIssuePolicy) {
+    return handleIssueDeleted({
+      notion: {client: client as unknown as Client, databaseId: 'db', propertyMapping},
+      payload: issuePayload('deleted') as unknown as IssuesDeletedEvent,
+      policy,
+    });
+  }
+
+  it('should archive the page with the archive policy', async () => {
+    const client = notionClient([notionPage('page', issue.url, 'I_1')]);
+
+    await deleteIssue(client, 'archive');
+
+    expect(client.pages.update).toHaveBeenCalledWith({page_id: 'page', in_trash: true});
+  });
+
+  it('should only mark the state of the page as deleted with the mark policy', async () => {
+    const client = notionClient([notionPage('page', issue.url, 'I_1')]);
+
+    await deleteIssue(client, 'mark');
+
+    expect(client.pages.update).toHaveBeenCalledTimes(1);
+    expect(client.pages.update).toHaveBeenCalledWith({
+      page_id: 'page',
+      properties: {State: properties.getStatusSelectOption('deleted')},
+    });
+  });
+
+  it('should leave the page alone with the ignore policy', async () => {
+    const client = notionClient([notionPage('page', issue.url, 'I_1')]);
+
+    await deleteIssue(client, 'ignore');
+
+    expect(client.databases.query).not.toHaveBeenCalled();
+    expect(client.pages.update).not.toHaveBeenCalled();
+  });
+
+  it('should do nothing for issues without a page', async () => {
+    const client = notionClient([]);
+
+    await deleteIssue(client, 'archive');
+
+    expect(client.pages.update).not.toHaveBeenCalled();
+  });
+});
+
+describe('handleIssueTransferred', () => {
+  it('should move the existing page to the new issue', async () => {
+    const client = notionClient([notionPage('page', issue.url, 'I_1')]);
+    const newUrl = 'https://github.com/owner/other/issues/7';
+
+    await handleIssueTransferred({
+      notion: {client: client as unknown as Client, databaseId: 'db', propertyMapping},
+      payload: {
+        ...issuePayload('transferred'),
+        changes: {
+          new_issue: {html_url: newUrl, node_id: 'I_7', number: 7},
+          new_repository: {name: 'other', full_name: 'owner/other'},
+        },
+      } as unknown as Parameters<typeof handleIssueTransferred>[0]['payload'],
+    });
+
+    expect(client.pages.create).not.toHaveBeenCalled();
+    expect(client.pages.update).toHaveBeenCalledTimes(1);
+    expect(client.pages.update).toHaveBeenCalledWith({
+      page_id: 'page',
+      properties: {
+        Issue: properties.url(newUrl),
+        'Node ID': properties.text('I_7'),
+        Number: properties.number(7),
+        Repository: properties.text('other'),
+      },
+    });
+  });
+});
+
+describe('getRelationsBetweenGithubAndNotionUsers', () => {
+  function userPage(github: string, people: Array<{id: string; type: string}>) {
+    return {
+      object: 'page',
+      id: `page-${github}`,
+      properties: {
+        GitHub: {type: 'url', url: github},
+        Person: {type: 'people', people: people.map(person => ({object: 'user', ...person}))},
+      },
+    };
+  }
+
+  it('should read the users of every page of the database', async () => {
+    const query = jest
+      .fn()
+      .mockResolvedValueOnce({
+        results: [
+          userPage('https://github.com/octocat/', [{id: 'user-1', type: 'person'}]),
+          userPage('https://github.com/nobody', []),
+        ],
+        has_more: true,
+        next_cursor: 'cursor-2',
+      })
+      .mockResolvedValueOnce({
+        results: [
+          userPage('hubot', [
+            {id: 'bot-1', type: 'bot'},
+            {id: 'user-2', type: 'person'},
+          ]),
+        ],
+        has_more: false,
+        next_cursor: null,
+      });
+
+    const relations = await getRelationsBetweenGithubAndNotionUsers(
+      {databases: {query}} as unknown as Client,
+      {databaseId: 'users', githubProperty: 'GitHub', personProperty: 'Person'}
+    );
+
+    expect(relations).toEqual([
+      {githubUsername: 'octocat', notionUserId: 'user-1'},
+      {githubUsername: 'hubot', notionUserId: 'user-2'},
+    ]);
+    expect(query.mock.calls.map(([params]) => params.start_cursor)).toEqual([
+      undefined,
+      'cursor-2',
+    ]);
+  });
+});
@@ -0,0 +1,322 @@
+import {Client} from '@notionhq/client/build/src';
+import {
+  appendBlocks,
+  BLOCK_TEXT_CONTENT_CHARACTERS_LIMIT,
+  BodyBlock,
+  ChildBlock,
+  chunkBlocks,
+  createPageWithBlocks,
+  diffBodyBlocks,
+  findBodyRegion,
+  getBodyChildrenBlocks,
+  getBodyHash,
+  getBodyRegionBlocks,
+  limitRequestBlocks,
+  syncBodyRegion,
+} from '../src/blocks';
+
+describe('getBodyChildrenBlocks', () => {
+  it('should convert Markdown into separate blocks', () => {
+    const res = getBodyChildrenBlocks(
+      [
+        '# Title',
+        '',
+        'Some text',
+        '',
+        '- item',
+        '',
+        '- [ ] task',
+        '',
+        '```ts',
+        'const a = 1;',
+        '```',
+        '',
+        '> quote',
+      ].join('\n')
+    );
+
+    expect(res.map(block => block.type)).toEqual([
+      'heading_1',
+      'paragraph',
+      'bulleted_list_item',
+      'to_do',
+      'code',
+      'quote',
+    ]);
+  });
+
+  it('should not truncate long bodies to 100 blocks', () => {
+    const res = getBodyChildrenBlocks(Array(150).fill('paragraph').join('\n\n'));
+
+    expect(res.length).toBe(150);
+  });
+
+  it('should split long texts into several rich text items', () => {
+    const res = getBodyChildrenBlocks(Array(5000).fill('a').join(''))[0];
+
+    if (res.type === 'paragraph') {
+      expect(res.paragraph.rich_text.length).toBe(3);
+      res.paragraph.rich_text.forEach(item => {
+        if ('text' in item)
+          expect(item.text.content.length).toBeLessThanOrEqual(BLOCK_TEXT_CONTENT_CHARACTERS_LIMIT);
+      });
+    } else fail('res is not a paragraph block');
+  });
+});
+
+describe('chunkBlocks', () => {
+  it('should split blocks into chunks of 100', () => {
+    const res = chunkBlocks(Array(250).fill(0));
+
+    expect(res.map(chunk => chunk.length)).toEqual([100, 100, 50]);
+  });
+});
+
+// The nested children of a block, or of its nested children along the indexes
+function nestedChildren(block: BodyBlock, ...indexes: number[]): BodyBlock[] | undefined {
+  const children = (block as unknown as Record<string, {children?: BodyBlock[]}>)[
+    block.type as string
+  ].children;
+  if (indexes.length === 0 || !children) return children;
+  const [index, ...rest] = indexes;
+  return nestedChildren(children[index], ...rest);
+}
+
+function listItems(count: number) {
+  return Array.from({length: count}, (_, index) => `  - item ${index}`).join('\n');
+}
+
+describe('limitRequestBlocks', () => {
+  it('should leave out children nested deeper than 2 levels', () => {
+    const [list] = getBodyChildrenBlocks('- a\n  - b\n    - c\n      - d');
+
+    const {blocks, deferred} = limitRequestBlocks([list]);
+
+    expect(nestedChildren(blocks[0])).toHaveLength(1);
+    expect(nestedChildren(blocks[0], 0)).toBeUndefined();
+    expect(deferred).toEqual([{path: [0, 0], children: nestedChildren(list, 0)}]);
+    expect(nestedChildren(deferred[0].children[0])).toHaveLength(1);
+  });
+
+  it('should leave out nested children beyond 100', () => {
+    const [list] = getBodyChildrenBlocks(`- parent\n${listItems(150)}`);
+
+    const {blocks, deferred} = limitRequestBlocks([list]);
+
+    expect(nestedChildren(blocks[0])).toHaveLength(100);
+    expect(deferred).toEqual([{path: [0], children: nestedChildren(list)?.slice(100)}]);
+  });
+
+  it('should send at most 1000 blocks in all', () => {
+    const lists = getBodyChildrenBlocks(
+      Array.from({length: 20}, (_, index) => `- parent ${index}\n${listItems(100)}`).join('\n')
+    );
+
+    const {blocks, deferred} = limitRequestBlocks(lists);
+    const sent = blocks.reduce(
+      (count, block) => count + 1 + (nestedChildren(block)?.length ?? 0),
+      0
+    );
+
+    expect(sent).toBe(1000);
+    expect(deferred.reduce((count, {children}) => count + children.length, 0)).toBe(1020);
+  });
+});
+
+function notionClient() {
+  let lastId = 0;
+  const created = (children: BodyBlock[]) => children.map(() => ({id: `block-${++lastId}`}));
+  return {
+    pages: {create: jest.fn(async () => ({id: 'page'}))},
+    blocks: {
+      children: {
+        append: jest.fn(async ({children}: {block_id: string; children: BodyBlock[]}) => ({
+          results: created(children),
+        })),
+        list: jest.fn(async ({block_id}: {block_id: string}) => ({
+          results: [0, 1, 2].map(index => ({id: `${block_id}/${index}`})),
+          has_more: false,
+          next_cursor: null,
+        })),
+      },
+    },
+  };
+}
+
+describe('appendBlocks', () => {
+  it('should append the children nested too deep to their parent afterwards', async () => {
+    const client = notionClient();
+
+    await appendBlocks(
+      client as unknown as Client,
+      'page',
+      getBodyChildrenBlocks('- a\n  - b\n    - c\n      - d')
+    );
+
+    const appends = client.blocks.children.append.mock.calls.map(([{block_id, children}]) => [
+      block_id,
+      children.length,
+    ]);
+    expect(appends).toEqual([
+      ['page', 1],
+      ['block-1/0', 1],
+    ]);
+    expect(client.blocks.children.list).toHaveBeenCalledWith(
+      expect.objectContaining({block_id: 'block-1'})
+    );
+  });
+
+  it('should append the nested children beyond 100 to their parent afterwards', async () => {
+    const client = notionClient();
+
+    await appendBlocks(
+      client as unknown as Client,
+      'page',
+      getBodyChildrenBlocks(`- parent\n${listItems(150)}`)
+    );
+
+    const appends = client.blocks.children.append.mock.calls.map(([{block_id, children}]) => [
+      block_id,
+      children.length,
+    ]);
+    expect(appends).toEqual([
+      ['page', 1],
+      ['block-1', 50],
+    ]);
+  });
+});
+
+describe('createPageWithBlocks', () => {
+  it('should append the children nested too deep to the created page afterwards', async () => {
+    const client = notionClient();
+
+    await createPageWithBlocks(
+      client as unknown as Client,
+      {parent: {database_id: 'db'}, properties: {}},
+      getBodyChildrenBlocks('- a\n  - b\n    - c')
+    );
+
+    const [[{children}]] = client.pages.create.mock.calls as unknown as Array<
+      [{children: BodyBlock[]}]
+    >;
+    expect(nestedChildren(children[1], 0)).toBeUndefined();
+    expect(client.blocks.children.list).toHaveBeenCalledWith(
+      expect.objectContaining({block_id: 'page'})
+    );
+    // The list item is the second child of the page, after the start marker
+    expect(client.blocks.children.list).toHaveBeenCalledWith(
+      expect.objectContaining({block_id: 'page/1'})
+    );
+    expect(client.blocks.children.append).toHaveBeenCalledWith(
+      expect.objectContaining({block_id: 'page/1/0'})
+    );
+  });
+});
+
+function toChildBlocks(blocks: ReturnType<typeof getBodyChildrenBlocks>): ChildBlock[] {
+  return blocks.map((block, index) => {
+    const content = (block as {paragraph?: {rich_text: Array<{text: {content: string}}>}})
+      .paragraph;
+    return {
+      object: 'block',
+      id: `block-${index}`,
+      type: block.type,
+      has_children: false,
+      [block.type as string]: {
+        rich_text: (content?.rich_text ?? []).map(item => ({plain_text: item.text.content})),
+      },
+    } as unknown as ChildBlock;
+  });
+}
+
+describe('findBodyRegion', () => {
+  const notes = getBodyChildrenBlocks('A note added in Notion');
+
+  it('should find the blocks between the markers', () => {
+    const children = toChildBlocks([
+      ...getBodyRegionBlocks(getBodyChildrenBlocks('# Title\n\nSome text')),
+      ...notes,
+    ]);
+    const region = findBodyRegion(children);
+
+    expect(region?.start.id).toBe('block-0');
+    expect(region?.blocks.map(block => block.id)).toEqual(['block-1', 'block-2']);
+    expect(region?.end?.id).toBe('block-3');
+    expect(region?.hash).toBe(getBodyHash(getBodyChildrenBlocks('# Title\n\nSome text')));
+  });
+
+  it('should not find a region on pages without markers', () => {
+    expect(findBodyRegion(toChildBlocks(getBodyChildrenBlocks('Some text')))).toBeNull();
+  });
+
+  it('should leave the blocks after a start marker alone without end marker', () => {
+    const [start] = getBodyRegionBlocks([]);
+    const region = findBodyRegion(toChildBlocks([start, ...notes]));
+
+    expect(region?.blocks).toEqual([]);
+    expect(region?.end).toBeNull();
+  });
+});
+
+describe('diffBodyBlocks', () => {
+  const existing = toChildBlocks(getBodyChildrenBlocks('A\n\nB\n\nC'));
+
+  it('should not write unchanged blocks', () => {
+    expect(diffBodyBlocks(existing, getBodyChildrenBlocks('A\n\nB\n\nC'), 'start')).toEqual({
+      updates: [],
+      inserts: [],
+      deletes: [],
+    });
+  });
+
+  it('should update changed blocks in place', () => {
+    const blocks = getBodyChildrenBlocks('A\n\nX\n\nC');
+    const changes = diffBodyBlocks(existing, blocks, 'start');
+
+    expect(changes.updates).toEqual([{existing: existing[1], block: blocks[1]}]);
+    expect(changes.inserts).toEqual([]);
+    expect(changes.deletes).toEqual([]);
+  });
+
+  it('should insert and delete blocks', () => {
+    const blocks = getBodyChildrenBlocks('# Title\n\nA\n\nC\n\n- item');
+    const changes = diffBodyBlocks(existing, blocks, 'start');
+
+    expect(changes.updates).toEqual([]);
+    expect(changes.inserts).toEqual([
+      {after: 'start', blocks: [blocks[0]]},
+      {after: 'block-2', blocks: [blocks[3]]},
+    ]);
+    expect(changes.deletes).toEqual([existing[1]]);
+  });
+});
+
+describe('syncBodyRegion', () => {
+  it('should only replace the first block of pages created before the region', async () => {
+    const client = {
+      blocks: {
+        update: jest.fn().mockResolvedValue({}),
+        delete: jest.fn().mockResolvedValue({}),
+        children: {
+          append: jest.fn(async ({children}: {children: BodyBlock[]}) => ({
+            results: children.map((_, index) => ({id: `new-${index}`})),
+          })),
+        },
+      },
+    };
+    const children = toChildBlocks(getBodyChildrenBlocks('Old body\n\nA note\n\n- a task'));
+    const bodyBlocks = getBodyChildrenBlocks('# Title\n\nNew body');
+
+    await syncBodyRegion(client as unknown as Client, 'page', children, bodyBlocks);
+
+    const [start, ...rest] = getBodyRegionBlocks(bodyBlocks);
+    expect(client.blocks.update).toHaveBeenCalledTimes(1);
+    expect(client.blocks.update).toHaveBeenCalledWith({block_id: 'block-0', ...start});
+    expect(client.blocks.children.append).toHaveBeenCalledWith({
+      block_id: 'page',
+      children: rest,
+      after: 'block-0',
+    });
+    expect(client.blocks.delete).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,120 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {createCache, isFreshEntry} from '../src/cache';
+
+describe('isFreshEntry', () => {
+  const entry = {storedAt: 0, version: 'v1'};
+
+  it('should reuse entries younger than the TTL', () => {
+    expect(isFreshEntry(entry, 'v1', 60, 59999)).toBe(true);
+    expect(isFreshEntry(entry, 'v1', 60, 60000)).toBe(false);
+  });
+
+  it('should not reuse entries of another version', () => {
+    expect(isFreshEntry(entry, 'v2', 60, 0)).toBe(false);
+  });
+});
+
+describe('createCache', () => {
+  let directory: string;
+  let file: string;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'cache-'));
+    file = path.join(directory, 'nested', 'cache.json');
+  });
+
+  afterEach(() => {
+    if (fs.existsSync(file)) fs.unlinkSync(file);
+    if (fs.existsSync(path.dirname(file))) fs.rmdirSync(path.dirname(file));
+    fs.rmdirSync(directory);
+  });
+
+  it('should load each key once per run', async () => {
+    const cache = createCache({path: null, ttlSeconds: 60});
+    const load = jest.fn(async () => ['value']);
+
+    await Promise.all([cache.get('key', load), cache.get('key', load)]);
+    await cache.get('key', load);
+
+    expect(load).toHaveBeenCalledTimes(1);
+    expect(cache.stats).toEqual({hits: 2, misses: 1});
+  });
+
+  it('should load again after a failed load', async () => {
+    const cache = createCache({path: null, ttlSeconds: 60});
+
+    await expect(cache.get('key', () => Promise.reject(new Error('failed')))).rejects.toThrow();
+
+    expect(await cache.get('key', async () => 'value')).toBe('value');
+  });
+
+  it('should reuse persisted entries of the same version until they expire', async () => {
+    let now = 0;
+    const nextRun = () => createCache({path: file, ttlSeconds: 60}, () => now);
+
+    const first = nextRun();
+    await first.get(
+      'key',
+      async () => 'stored',
+      async () => 'v1'
+    );
+    first.save();
+
+    now = 30000;
+    const load = jest.fn(async () => 'loaded');
+    expect(await nextRun().get('key', load, async () => 'v1')).toBe('stored');
+    expect(await nextRun().get('key', load, async () => 'v2')).toBe('loaded');
+
+    now = 60000;
+    expect(await nextRun().get('key', load, async () => 'v1')).toBe('loaded');
+    expect(load).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not fetch the version of entries it does not have', async () => {
+    const cache = createCache({path: file, ttlSeconds: 60});
+    const getVersion = jest.fn(async () => 'v1');
+
+    await cache.get('key', async () => 'value', getVersion);
+
+    // Only once, to store it with the entry
+    expect(getVersion).toHaveBeenCalledTimes(1);
+  });
+
+  it('should keep memoized entries for the run only', async () => {
+    const cache = createCache({path: file, ttlSeconds: 60});
+    const load = jest.fn(async () => 'value');
+
+    await cache.memoize('run', load);
+    await cache.memoize('run', load);
+    await cache.get('persisted', load);
+    cache.save();
+
+    expect(load).toHaveBeenCalledTimes(2);
+    expect(cache.stats).toEqual({hits: 1, misses: 2});
+    expect(Object.keys(JSON.parse(fs.readFileSync(file, 'utf8')))).toEqual(['persisted']);
+  });
+
+  it('should leave out expired entries when saving', async () => {
+    let now = 0;
+    const cache = createCache({path: file, ttlSeconds: 60}, () => now);
+    await cache.get('old', async () => 'value');
+    now = 30000;
+    await cache.get('new', async () => 'value');
+
+    now = 60000;
+    cache.save();
+
+    expect(Object.keys(JSON.parse(fs.readFileSync(file, 'utf8')))).toEqual(['new']);
+  });
+
+  it('should ignore an unreadable cache file', async () => {
+    fs.mkdirSync(path.dirname(file));
+    fs.writeFileSync(file, '{');
+
+    const cache = createCache({path: file, ttlSeconds: 60});
+
+    expect(await cache.get('key', async () => 'value')).toBe('value');
+  });
+});
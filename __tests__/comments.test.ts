@@ -0,0 +1,127 @@
+import {Client} from '@notionhq/client/build/src';
+import {ChildBlock} from '../src/blocks';
+import {getCommentUrl, IssueComment, splitCommentBlocks, upsertCommentBlock} from '../src/comments';
+
+jest.mock('../src/action', () => ({graphqlWithAuth: jest.fn()}));
+
+const commentUrl = 'https://github.com/owner/repo/issues/1#issuecomment-42';
+
+function toggle(id: string, text: string, href: string | null = null): ChildBlock {
+  return {
+    object: 'block',
+    id,
+    type: 'toggle',
+    has_children: true,
+    toggle: {rich_text: [{type: 'text', plain_text: text, href}]},
+  } as unknown as ChildBlock;
+}
+
+function paragraph(id: string): ChildBlock {
+  return {
+    object: 'block',
+    id,
+    type: 'paragraph',
+    has_children: false,
+    paragraph: {rich_text: [{type: 'text', plain_text: 'text', href: null}]},
+  } as unknown as ChildBlock;
+}
+
+const comment: IssueComment = {
+  url: commentUrl,
+  author: 'octocat',
+  createdAt: '2024-01-01T10:20:30Z',
+  editedAt: null,
+  body: 'Looks good',
+};
+
+const header = '💬 octocat commented on 2024-01-01 10:20 UTC';
+
+function notionClient() {
+  return {
+    blocks: {
+      update: jest.fn().mockResolvedValue({}),
+      delete: jest.fn().mockResolvedValue({}),
+      children: {
+        list: jest.fn().mockResolvedValue({results: [], has_more: false, next_cursor: null}),
+        append: jest.fn().mockResolvedValue({results: [{id: 'new'}]}),
+      },
+    },
+  };
+}
+
+describe('getCommentUrl', () => {
+  it('should read the comment URL of a comment toggle', () => {
+    expect(getCommentUrl(toggle('b1', header, commentUrl))).toBe(commentUrl);
+  });
+
+  it('should ignore other blocks', () => {
+    expect(getCommentUrl(toggle('b1', 'Details'))).toBeNull();
+    expect(getCommentUrl(toggle('b1', 'Link', 'https://example.com'))).toBeNull();
+    expect(getCommentUrl(paragraph('b1'))).toBeNull();
+  });
+});
+
+describe('splitCommentBlocks', () => {
+  it('should split the body from the comments appended after it', () => {
+    const body = [paragraph('p1'), toggle('t1', 'Details'), paragraph('p2')];
+    const comments = [toggle('c1', header, commentUrl), toggle('c2', header, `${commentUrl}3`)];
+
+    expect(splitCommentBlocks([...body, ...comments])).toEqual({
+      bodyBlocks: body,
+      commentBlocks: comments,
+    });
+  });
+
+  it('should keep every block in the body of pages without comments', () => {
+    const body = [paragraph('p1'), toggle('t1', 'Details')];
+
+    expect(splitCommentBlocks(body)).toEqual({bodyBlocks: body, commentBlocks: []});
+  });
+});
+
+describe('upsertCommentBlock', () => {
+  it('should append a toggle for a new comment', async () => {
+    const client = notionClient();
+
+    const result = await upsertCommentBlock(client as unknown as Client, 'page', comment, {
+      children: [paragraph('p1')],
+    });
+
+    expect(result).toBe('created');
+    expect(client.blocks.children.append).toHaveBeenCalledWith(
+      expect.objectContaining({block_id: 'page'})
+    );
+    expect(client.blocks.children.append).toHaveBeenLastCalledWith(
+      expect.objectContaining({block_id: 'new'})
+    );
+  });
+
+  it('should leave a comment whose header did not change', async () => {
+    const client = notionClient();
+
+    const result = await upsertCommentBlock(client as unknown as Client, 'page', comment, {
+      children: [paragraph('p1'), toggle('c1', header, commentUrl)],
+      skipUnchanged: true,
+    });
+
+    expect(result).toBe('unchanged');
+    expect(client.blocks.update).not.toHaveBeenCalled();
+    expect(client.blocks.children.append).not.toHaveBeenCalled();
+  });
+
+  it('should rewrite an edited comment', async () => {
+    const client = notionClient();
+    const edited = {...comment, editedAt: '2024-01-02T08:00:00Z'};
+
+    const result = await upsertCommentBlock(client as unknown as Client, 'page', edited, {
+      children: [toggle('c1', header, commentUrl)],
+      skipUnchanged: true,
+    });
+
+    expect(result).toBe('updated');
+    expect(client.blocks.update).toHaveBeenCalledWith(expect.objectContaining({block_id: 'c1'}));
+    expect(client.blocks.children.append).toHaveBeenCalledWith(
+      expect.objectContaining({block_id: 'c1'})
+    );
+  });
+});
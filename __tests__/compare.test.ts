@@ -0,0 +1,51 @@
+import {getChangedProperties, PageProperties} from '../src/compare';
+import {properties} from '../src/properties';
+
+const current = {
+  Name: {
+    id: 'title',
+    type: 'title',
+    title: [{type: 'text', plain_text: 'abc', text: {content: 'abc', link: null}}],
+  },
+  Labels: {
+    id: 'labels',
+    type: 'multi_select',
+    multi_select: [
+      {id: '1', name: 'bug', color: 'red'},
+      {id: '2', name: 'docs', color: 'blue'},
+    ],
+  },
+  Issue: {id: 'issue', type: 'url', url: 'https://github.com/owner/repo/issues/1'},
+  Status: {id: 'status', type: 'status', status: {id: 's', name: 'Done', color: 'green'}},
+  Due: {id: 'due', type: 'date', date: {start: '2024-01-01T10:00:00.000+00:00', end: null}},
+} as unknown as PageProperties;
+
+describe('getChangedProperties', () => {
+  it('should return nothing when the page is up to date', () => {
+    const res = getChangedProperties(current, {
+      Name: properties.title('abc'),
+      Labels: properties.multiSelect(['docs', 'bug']),
+      Issue: properties.url('https://github.com/owner/repo/issues/1'),
+      Status: properties.status('Done'),
+      Due: properties.date('2024-01-01T10:00:00Z'),
+    });
+
+    expect(res).toEqual({});
+  });
+
+  it('should return the changed properties only', () => {
+    const res = getChangedProperties(current, {
+      Name: properties.title('abcd'),
+      Labels: properties.multiSelect(['bug']),
+      Issue: properties.url('https://github.com/owner/repo/issues/1'),
+    });
+
+    expect(Object.keys(res)).toEqual(['Name', 'Labels']);
+  });
+
+  it('should treat properties missing from the page as changed', () => {
+    const res = getChangedProperties(current, {Repository: properties.text('repo')});
+
+    expect(Object.keys(res)).toEqual(['Repository']);
+  });
+});
@@ -0,0 +1,117 @@
+import {PageProperties} from '../src/compare';
+import {DatabasePage, groupDuplicatePages, planDedupe} from '../src/dedupe';
+
+const identity = {urlProperty: 'Issue', nodeIdProperty: 'GitHub ID'};
+
+function page(
+  id: string,
+  createdTime: string,
+  lastEditedTime: string,
+  values: {url?: string; nodeId?: string; labels?: string[]; milestone?: string; related?: string[]}
+): DatabasePage {
+  return {
+    id,
+    createdTime,
+    lastEditedTime,
+    properties: {
+      Issue: {id: 'issue', type: 'url', url: values.url ?? null},
+      'GitHub ID': {
+        id: 'node',
+        type: 'rich_text',
+        rich_text: values.nodeId ? [{type: 'text', plain_text: values.nodeId}] : [],
+      },
+      Labels: {
+        id: 'labels',
+        type: 'multi_select',
+        multi_select: (values.labels ?? []).map(name => ({id: name, name, color: 'default'})),
+      },
+      Milestone: {
+        id: 'milestone',
+        type: 'select',
+        select: values.milestone ? {id: 'm', name: values.milestone, color: 'default'} : null,
+      },
+      Related: {
+        id: 'related',
+        type: 'relation',
+        relation: (values.related ?? []).map(relatedId => ({id: relatedId})),
+      },
+    } as unknown as PageProperties,
+  };
+}
+
+const url = 'https://github.com/owner/repo/issues/1';
+
+describe('groupDuplicatePages', () => {
+  const pages = [
+    page('b', '2024-01-02T00:00:00Z', '2024-01-05T00:00:00Z', {url, nodeId: 'I_1'}),
+    page('a', '2024-01-01T00:00:00Z', '2024-01-03T00:00:00Z', {url}),
+    page('c', '2024-01-03T00:00:00Z', '2024-01-04T00:00:00Z', {
+      url: 'https://github.com/owner/renamed/issues/1',
+      nodeId: 'I_1',
+    }),
+    page('d', '2024-01-01T00:00:00Z', '2024-01-01T00:00:00Z', {url: `${url}0`}),
+  ];
+
+  it('should group pages by node id, and pages without one by url', () => {
+    const groups = groupDuplicatePages(pages, identity, 'oldest');
+
+    expect(groups).toHaveLength(1);
+    expect(groups[0].identity).toBe('I_1');
+    expect(groups[0].canonical.id).toBe('a');
+    expect(groups[0].duplicates.map(duplicate => duplicate.id)).toEqual(['b', 'c']);
+  });
+
+  it('should keep the page edited last', () => {
+    const [group] = groupDuplicatePages(pages, identity, 'most-edited');
+
+    expect(group.canonical.id).toBe('b');
+    expect(group.duplicates.map(duplicate => duplicate.id)).toEqual(['c', 'a']);
+  });
+
+  it('should not group pages of issues that had the same url', () => {
+    const groups = groupDuplicatePages(
+      [...pages, page('e', '2024-01-04T00:00:00Z', '2024-01-04T00:00:00Z', {url, nodeId: 'I_2'})],
+      identity,
+      'oldest'
+    );
+
+    // The page without node id could belong to either issue, so it is left alone
+    expect(groups.map(group => group.identity)).toEqual(['I_1']);
+    expect(groups[0].canonical.id).toBe('b');
+    expect(groups[0].duplicates.map(duplicate => duplicate.id)).toEqual(['c']);
+  });
+});
+
+describe('planDedupe', () => {
+  const plan = planDedupe(
+    [
+      page('a', '2024-01-01T00:00:00Z', '2024-01-01T00:00:00Z', {url, labels: ['bug']}),
+      page('b', '2024-01-02T00:00:00Z', '2024-01-02T00:00:00Z', {
+        url,
+        labels: ['docs'],
+        milestone: 'v1',
+      }),
+      page('c', '2024-01-03T00:00:00Z', '2024-01-03T00:00:00Z', {url: `${url}0`, related: ['b']}),
+    ],
+    identity,
+    'oldest'
+  );
+
+  it('should merge the duplicates into the kept page', () => {
+    expect(plan.groups.map(group => group.canonical.id)).toEqual(['a']);
+    expect(plan.updates[0]).toEqual({
+      pageId: 'a',
+      properties: {
+        Labels: {type: 'multi_select', multi_select: [{name: 'bug'}, {name: 'docs'}]},
+        Milestone: {type: 'select', select: {name: 'v1'}},
+      },
+    });
+  });
+
+  it('should move relations to the kept page', () => {
+    expect(plan.updates[1]).toEqual({
+      pageId: 'c',
+      properties: {Related: {type: 'relation', relation: [{id: 'a'}]}},
+    });
+  });
+});
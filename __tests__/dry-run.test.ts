@@ -0,0 +1,145 @@
+import {createDryRun, describePropertyValue, planRequest} from '../src/dry-run';
+
+const NOTION = 'https://api.notion.com';
+
+describe('planRequest', () => {
+  it('should let reads through', () => {
+    expect(
+      planRequest('Notion', 'GET', `${NOTION}/v1/blocks/b1/children?page_size=100`, null)
+    ).toBeNull();
+    expect(planRequest('Notion', 'POST', `${NOTION}/v1/databases/db/query`, {})).toBeNull();
+    expect(
+      planRequest('GitHub', 'POST', 'https://api.github.com/graphql', {
+        query: 'query { viewer { login } }',
+      })
+    ).toBeNull();
+  });
+
+  it('should plan page creations with their title and properties', () => {
+    const change = planRequest('Notion', 'POST', `${NOTION}/v1/pages`, {
+      parent: {database_id: 'db'},
+      properties: {
+        Name: {type: 'title', title: [{type: 'text', text: {content: 'Broken build'}}]},
+        Labels: {type: 'multi_select', multi_select: [{name: 'bug'}, {name: 'ci'}]},
+      },
+      children: [{}, {}],
+    });
+
+    expect(change).toMatchObject({api: 'Notion', kind: 'create-page', target: 'db'});
+    expect(change?.summary).toBe(
+      'Create page "Broken build" in db with 2 blocks, setting Name to Broken build; Labels to bug, ci'
+    );
+  });
+
+  it('should tell archives from property updates', () => {
+    expect(planRequest('Notion', 'PATCH', `${NOTION}/v1/pages/p1`, {in_trash: true})).toMatchObject(
+      {
+        kind: 'archive-page',
+        target: 'p1',
+      }
+    );
+    expect(
+      planRequest('Notion', 'PATCH', `${NOTION}/v1/pages/p1`, {
+        properties: {Status: {type: 'status', status: {name: 'Done'}}},
+      })?.summary
+    ).toBe('Update page p1, setting Status to Done');
+  });
+
+  it('should plan block changes', () => {
+    expect(
+      planRequest('Notion', 'PATCH', `${NOTION}/v1/blocks/p1/children`, {
+        children: [{}],
+        after: 'b1',
+      })?.summary
+    ).toBe('Append 1 blocks to p1 after block b1');
+    expect(planRequest('Notion', 'PATCH', `${NOTION}/v1/blocks/b1`, {})?.kind).toBe('update-block');
+    expect(planRequest('Notion', 'DELETE', `${NOTION}/v1/blocks/b1`, null)?.kind).toBe(
+      'delete-block'
+    );
+  });
+
+  it('should plan GitHub mutations', () => {
+    const change = planRequest('GitHub', 'POST', 'https://api.github.com/graphql', {
+      query:
+        'mutation($itemId: ID!) { updateProjectV2ItemFieldValue(input: {itemId: $itemId}) { clientMutationId } }',
+      variables: {itemId: 'PVTI_1'},
+    });
+
+    expect(change).toMatchObject({
+      kind: 'github-mutation',
+      target: 'updateProjectV2ItemFieldValue',
+    });
+    expect(change?.summary).toBe(
+      'Run the GitHub updateProjectV2ItemFieldValue mutation with itemId PVTI_1'
+    );
+  });
+});
+
+describe('describePropertyValue', () => {
+  it('should describe empty values', () => {
+    expect(describePropertyValue({type: 'select', select: null})).toBe('empty');
+    expect(describePropertyValue({type: 'relation', relation: []})).toBe('empty');
+  });
+
+  it('should describe values without type', () => {
+    expect(describePropertyValue({date: {start: '2024-01-01', end: '2024-01-31'}})).toBe(
+      '2024-01-01 to 2024-01-31'
+    );
+    expect(describePropertyValue({number: 3})).toBe('3');
+  });
+});
+
+describe('createDryRun', () => {
+  function json(body: unknown) {
+    return new Response(JSON.stringify(body), {status: 200});
+  }
+
+  async function read(response: Promise<Response>) {
+    return (await (await response).json()) as {id: string; results: Array<{id: string}>};
+  }
+
+  it('should send every request when disabled', async () => {
+    const send = jest.fn(async () => json({}));
+    const fetch = createDryRun({enabled: false, planPath: 'plan.json'}).wrap('Notion', send);
+
+    await fetch(`${NOTION}/v1/pages/p1`, {method: 'PATCH', body: '{}'});
+
+    expect(send).toHaveBeenCalledTimes(1);
+  });
+
+  it('should record writes and answer them without sending them', async () => {
+    const dryRun = createDryRun({enabled: true, planPath: 'plan.json'});
+    const send = jest.fn(async () => json({object: 'list', results: [{id: 'b1'}]}));
+    const fetch = dryRun.wrap('Notion', send);
+
+    const page = await read(
+      fetch(`${NOTION}/v1/pages`, {
+        method: 'POST',
+        body: JSON.stringify({parent: {database_id: 'db'}, properties: {}}),
+      })
+    );
+    const appended = await read(
+      fetch(`${NOTION}/v1/blocks/${page.id}/children`, {
+        method: 'PATCH',
+        body: JSON.stringify({children: [{}, {}]}),
+      })
+    );
+
+    expect(page.id).toMatch(/^dry-run-/);
+    expect(appended.results).toHaveLength(2);
+    expect(dryRun.changes.map(change => change.kind)).toEqual(['create-page', 'append-blocks']);
+    expect(send).not.toHaveBeenCalled();
+  });
+
+  it('should read nothing from pages created by the dry run', async () => {
+    const send = jest.fn(async () => json({object: 'list', results: [{id: 'b1'}]}));
+    const fetch = createDryRun({enabled: true, planPath: 'plan.json'}).wrap('Notion', send);
+
+    const created = await read(fetch(`${NOTION}/v1/blocks/dry-run-1/children`));
+    const existing = await read(fetch(`${NOTION}/v1/blocks/p1/children`));
+
+    expect(created.results).toEqual([]);
+    expect(existing.results).toEqual([{id: 'b1'}]);
+    expect(send).toHaveBeenCalledTimes(1);
+  });
+});
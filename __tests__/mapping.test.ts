@@ -0,0 +1,251 @@
+import {
+  buildProperties,
+  DEFAULT_PROPERTY_MAPPING,
+  DraftIssueFields,
+  getIssueUrlProperty,
+  getNodeIdProperty,
+  getProjectItemIdProperty,
+  IssueFields,
+  loadPropertyMapping,
+  loadStatusMapping,
+  parsePropertyMapping,
+} from '../src/mapping';
+import {DEFAULT_STATUS_MAPPING, properties, StatusFallback} from '../src/properties';
+
+const issue: IssueFields = {
+  title: 'abc',
+  number: 1,
+  state: 'open',
+  url: 'https://github.com/owner/repo/issues/1',
+  repository: 'repo',
+  assignees: ['octocat', 'unknown'],
+  labels: ['bug', 'help wanted'],
+  milestone: null,
+  author: 'octocat',
+  createdAt: '2024-01-01T00:00:00Z',
+  updatedAt: '2024-01-02T00:00:00Z',
+  closedAt: null,
+  projects: ['Roadmap', 'Sprint board'],
+  projectFields: {
+    Status: 'In review',
+    'Project KEY': 'KEY',
+    Estimate: 3,
+    Sprint: {title: 'Sprint 1', startDate: '2024-01-01', endDate: '2024-01-14'},
+    Reviewers: ['octocat'],
+  },
+};
+
+const context = {
+  userRelations: [{githubUsername: 'octocat', notionUserId: 'user-id'}],
+  notionProjects: [{id: 'project-id', projectKey: 'KEY'}],
+};
+
+describe('parsePropertyMapping', () => {
+  it('should accept the default mapping', () => {
+    expect(parsePropertyMapping(DEFAULT_PROPERTY_MAPPING)).toEqual(DEFAULT_PROPERTY_MAPPING);
+  });
+
+  it('should reject unknown types and sources', () => {
+    expect(() =>
+      parsePropertyMapping([{property: 'Name', type: 'titel', source: 'title'}])
+    ).toThrow(/unknown type "titel"/);
+    expect(() => parsePropertyMapping([{property: 'Name', type: 'title', source: 'name'}])).toThrow(
+      /unknown source "name"/
+    );
+  });
+
+  it('should require exactly one of source and value', () => {
+    expect(() =>
+      parsePropertyMapping([{property: 'Name', type: 'title', source: 'title', value: 'x'}])
+    ).toThrow(/exactly one of "source" or "value"/);
+  });
+
+  it('should reject duplicated properties', () => {
+    expect(() =>
+      parsePropertyMapping([...DEFAULT_PROPERTY_MAPPING, {...DEFAULT_PROPERTY_MAPPING[0]}])
+    ).toThrow(/mapped more than once/);
+  });
+
+  it('should require an issue url property', () => {
+    expect(() =>
+      parsePropertyMapping([{property: 'Name', type: 'title', source: 'title'}])
+    ).toThrow(/"url" entry/);
+  });
+});
+
+describe('loadPropertyMapping', () => {
+  it('should fall back to the default mapping', () => {
+    expect(loadPropertyMapping({})).toBe(DEFAULT_PROPERTY_MAPPING);
+  });
+
+  it('should report invalid JSON', () => {
+    expect(() => loadPropertyMapping({json: '[{'})).toThrow(/Unable to parse property mapping/);
+  });
+});
+
+describe('getIssueUrlProperty', () => {
+  it('should return the property holding the issue url', () => {
+    expect(getIssueUrlProperty(DEFAULT_PROPERTY_MAPPING)).toBe('Issue');
+  });
+});
+
+describe('getNodeIdProperty', () => {
+  it('should return the text property holding the node id', () => {
+    expect(getNodeIdProperty(DEFAULT_PROPERTY_MAPPING)).toBeNull();
+    expect(
+      getNodeIdProperty([
+        ...DEFAULT_PROPERTY_MAPPING,
+        {property: 'GitHub ID', type: 'text', source: 'nodeId'},
+      ])
+    ).toBe('GitHub ID');
+  });
+});
+
+describe('buildProperties', () => {
+  const res = buildProperties(
+    [
+      ...DEFAULT_PROPERTY_MAPPING,
+      {property: 'Estimate', type: 'number', source: 'project.Estimate'},
+      {property: 'Milestone', type: 'select', source: 'milestone'},
+      {property: 'State', type: 'state', source: 'state'},
+    ],
+    issue,
+    context
+  );
+
+  it('should build every mapped property', () => {
+    expect(Object.keys(res)).toEqual([
+      'Name',
+      'Status',
+      'Repository',
+      'Assignee',
+      'Labels',
+      'Issue',
+      'Project',
+      'Task group',
+      'Estimate',
+      'Milestone',
+      'State',
+    ]);
+  });
+
+  it('should read issue and project fields', () => {
+    expect(res['Status']).toEqual({status: {name: 'To be checked'}});
+    expect(res['Assignee']).toEqual({people: [{id: 'user-id', object: 'user'}]});
+    expect(res['Project']).toEqual({type: 'relation', relation: [{id: 'project-id'}]});
+    expect(res['Estimate']).toEqual({type: 'number', number: 3});
+  });
+
+  it('should clear properties without a value', () => {
+    expect(res['Milestone']).toEqual({type: 'select', select: null});
+  });
+});
+
+describe('buildProperties for draft issues', () => {
+  const draft: DraftIssueFields = {
+    title: 'Idea',
+    state: 'open',
+    assignees: ['octocat'],
+    labels: [],
+    milestone: null,
+    author: 'octocat',
+    createdAt: '2024-01-01T00:00:00Z',
+    updatedAt: '2024-01-02T00:00:00Z',
+    closedAt: null,
+    projects: ['Roadmap'],
+    projectFields: {Status: 'Todo'},
+    projectItemId: 'item-id',
+  };
+  const mapping = [
+    ...DEFAULT_PROPERTY_MAPPING,
+    {property: 'Number', type: 'number', source: 'number'},
+    {property: 'Project item', type: 'text', source: 'projectItemId'},
+  ] as const;
+  const res = buildProperties([...mapping], draft, context);
+
+  it('should leave the properties of unset fields unchanged', () => {
+    expect(res['Issue']).toBeUndefined();
+    expect(res['Number']).toBeUndefined();
+    expect(res['Repository']).toBeUndefined();
+  });
+
+  it('should store the project item id', () => {
+    expect(getProjectItemIdProperty([...mapping])).toBe('Project item');
+    expect(getProjectItemIdProperty(DEFAULT_PROPERTY_MAPPING)).toBeNull();
+    expect(res['Project item']).toEqual(properties.text('item-id'));
+  });
+});
+
+describe('buildProperties with project field types', () => {
+  const res = buildProperties(
+    [
+      {property: 'Name', type: 'title', source: 'title'},
+      {property: 'Issue', type: 'url', source: 'url'},
+      {property: 'Sprint', type: 'select', source: 'project.Sprint'},
+      {property: 'Sprint dates', type: 'date', source: 'project.Sprint'},
+      {property: 'Reviewers', type: 'person', source: 'project.Reviewers'},
+      {property: 'Projects', type: 'multiSelect', source: 'projects'},
+    ],
+    issue,
+    context
+  );
+
+  it('should map iterations to their title or date range', () => {
+    expect(res['Sprint']).toEqual({type: 'select', select: {name: 'Sprint 1', color: 'default'}});
+    expect(res['Sprint dates']).toEqual({
+      type: 'date',
+      date: {start: '2024-01-01', end: '2024-01-14'},
+    });
+  });
+
+  it('should map user fields through the user relations', () => {
+    expect(res['Reviewers']).toEqual({people: [{id: 'user-id', object: 'user'}]});
+  });
+
+  it('should list every project of the issue', () => {
+    expect(res['Projects']).toEqual(properties.multiSelect(['Roadmap', 'Sprint board']));
+  });
+});
+
+describe('loadStatusMapping', () => {
+  it('should fall back to the default status mapping', () => {
+    expect(loadStatusMapping({})).toEqual(DEFAULT_STATUS_MAPPING);
+  });
+
+  it('should read the mapping table and fallback', () => {
+    expect(
+      loadStatusMapping({json: '{"Todo": "Backlog"}', defaultStatus: 'Triage', fallback: 'state'})
+    ).toEqual({statuses: {Todo: 'Backlog'}, defaultStatus: 'Triage', fallback: 'state'});
+  });
+
+  it('should reject invalid mappings and fallbacks', () => {
+    expect(() => loadStatusMapping({json: '["Todo"]'})).toThrow(/Invalid status mapping/);
+    expect(() => loadStatusMapping({fallback: 'keep'})).toThrow(/Invalid status fallback/);
+  });
+});
+
+describe('buildProperties with a status mapping', () => {
+  const mapping = [
+    {property: 'Name', type: 'title' as const, source: 'title'},
+    {property: 'Status', type: 'status' as const, source: 'project.Status'},
+  ];
+
+  function build(fallback: StatusFallback) {
+    return buildProperties(mapping, issue, {
+      ...context,
+      statusMapping: {statuses: {Todo: 'Backlog'}, defaultStatus: 'Triage', fallback},
+    });
+  }
+
+  it('should fall back to the default status for unmapped statuses', () => {
+    expect(build('default')['Status']).toEqual({status: {name: 'Triage'}});
+  });
+
+  it('should fall back to the issue state', () => {
+    expect(build('state')['Status']).toEqual({status: {name: 'Open'}});
+  });
+
+  it('should leave the status unchanged', () => {
+    expect(build('none')).not.toHaveProperty('Status');
+  });
+});
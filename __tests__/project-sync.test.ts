@@ -0,0 +1,322 @@
+import {Client} from '@notionhq/client/build/src';
+import {graphqlWithAuth} from '../src/action';
+import {PageProperties} from '../src/compare';
+import {PropertyMapping} from '../src/mapping';
+import {
+  DraftIssueContent,
+  getDraftFields,
+  getItemFields,
+  IssueContent,
+  ProjectItem,
+  PullRequestContent,
+  syncPage,
+  syncProjectWithNotion,
+} from '../src/project-sync';
+import {DEFAULT_STATUS_MAPPING, properties} from '../src/properties';
+import {createReport} from '../src/report';
+import {IssuePage} from '../src/sync';
+
+jest.mock('../src/action', () => ({
+  graphqlWithAuth: jest.fn(),
+  getNotionRelations: jest.fn().mockResolvedValue({users: [], projects: []}),
+}));
+
+const graphql = graphqlWithAuth as unknown as jest.Mock;
+
+function contentFields(number: number): Omit<IssueContent, '__typename' | 'issueState'> {
+  return {
+    id: `I_${number}`,
+    number,
+    title: `Issue ${number}`,
+    url: `https://github.com/owner/repo/issues/${number}`,
+    body: '',
+    createdAt: '2024-01-01T00:00:00Z',
+    updatedAt: '2024-01-02T00:00:00Z',
+    closedAt: null,
+    author: {login: 'octocat'},
+    repository: {name: 'repo'},
+    assignees: {nodes: [{login: 'hubot'}]},
+    labels: {nodes: [{name: 'bug'}]},
+    milestone: null,
+  };
+}
+
+function issueContent(number: number, state: 'OPEN' | 'CLOSED' = 'OPEN'): IssueContent {
+  return {
+    ...contentFields(number),
+    __typename: 'Issue',
+    issueState: state,
+    closedAt: state === 'CLOSED' ? '2024-01-02T00:00:00Z' : null,
+  };
+}
+
+function pullRequestContent(number: number, closesIssues: string[]): PullRequestContent {
+  return {
+    ...contentFields(number),
+    __typename: 'PullRequest',
+    id: `PR_${number}`,
+    url: `https://github.com/owner/repo/pull/${number}`,
+    pullRequestState: 'MERGED',
+    isDraft: false,
+    mergedAt: '2024-01-02T00:00:00Z',
+    headRefName: 'fix',
+    baseRefName: 'main',
+    reviewRequests: {nodes: [{requestedReviewer: {login: 'monalisa'}}, {requestedReviewer: null}]},
+    closingIssuesReferences: {nodes: closesIssues.map(url => ({url}))},
+  };
+}
+
+function draftContent(title: string): DraftIssueContent {
+  return {
+    __typename: 'DraftIssue',
+    title,
+    body: '',
+    createdAt: '2024-01-01T00:00:00Z',
+    updatedAt: '2024-01-02T00:00:00Z',
+    creator: null,
+    assignees: {nodes: []},
+  };
+}
+
+function projectItem(id: string, content: ProjectItem['content']): ProjectItem {
+  return {
+    id,
+    isArchived: false,
+    content,
+    fieldValues: {pageInfo: {hasNextPage: false, endCursor: null}, nodes: []},
+  };
+}
+
+function notionClient(pages: Array<{id: string; properties: Record<string, unknown>}> = []) {
+  let created = 0;
+  return {
+    databases: {
+      query: jest.fn().mockResolvedValue({
+        results: pages.map(page => ({object: 'page', ...page})),
+        has_more: false,
+        next_cursor: null,
+      }),
+    },
+    pages: {
+      create: jest.fn(async () => ({id: `created-${++created}`})),
+      update: jest.fn().mockResolvedValue({}),
+    },
+    blocks: {children: {append: jest.fn().mockResolvedValue({results: []})}},
+  };
+}
+
+describe('getItemFields', () => {
+  it('should read the fields of issues', () => {
+    const item = projectItem('item-1', null);
+
+    expect(getItemFields(item, issueContent(1, 'CLOSED'), 'Roadmap', {Status: 'Done'})).toEqual({
+      title: 'Issue 1',
+      number: 1,
+      state: 'closed',
+      url: 'https://github.com/owner/repo/issues/1',
+      repository: 'repo',
+      assignees: ['hubot'],
+      labels: ['bug'],
+      milestone: null,
+      author: 'octocat',
+      createdAt: '2024-01-01T00:00:00Z',
+      updatedAt: '2024-01-02T00:00:00Z',
+      closedAt: '2024-01-02T00:00:00Z',
+      projects: ['Roadmap'],
+      projectFields: {Status: 'Done'},
+      nodeId: 'I_1',
+      projectItemId: 'item-1',
+    });
+  });
+
+  it('should read the fields of pull requests', () => {
+    const issueUrl = 'https://github.com/owner/repo/issues/1';
+    const fields = getItemFields(
+      projectItem('item-2', null),
+      pullRequestContent(2, [issueUrl]),
+      'Roadmap',
+      {}
+    );
+
+    expect(fields).toMatchObject({
+      state: 'closed',
+      draft: false,
+      merged: true,
+      reviewers: ['monalisa'],
+      headBranch: 'fix',
+      baseBranch: 'main',
+      closesIssues: [issueUrl],
+    });
+  });
+});
+
+describe('getDraftFields', () => {
+  it('should read the fields of draft issues', () => {
+    const draft = getDraftFields(projectItem('item-3', null), draftContent('Idea'), 'Roadmap', {});
+
+    expect(draft).toMatchObject({
+      title: 'Idea',
+      state: 'open',
+      author: null,
+      projects: ['Roadmap'],
+      projectItemId: 'item-3',
+    });
+  });
+});
+
+describe('syncPage', () => {
+  const key = 'https://github.com/owner/repo/issues/1';
+
+  function pages(page?: IssuePage) {
+    return new Map(page ? [[key, page]] : []);
+  }
+
+  function pageProperties(title: string) {
+    return {Name: {type: 'title', title: [{plain_text: title}]}} as unknown as PageProperties;
+  }
+
+  async function sync(client: ReturnType<typeof notionClient>, issuePages: Map<string, IssuePage>) {
+    const report = createReport({usersLookupEnabled: false});
+    await syncPage({
+      client: client as unknown as Client,
+      databaseId: 'db',
+      pages: issuePages,
+      key,
+      nodeId: 'I_1',
+      nodeIdProperty: 'Node ID',
+      properties: {Name: properties.title('Issue 1')},
+      body: '',
+      reconcile: true,
+      report,
+    });
+    return report.counts;
+  }
+
+  it('should create the page of items without one', async () => {
+    const client = notionClient();
+    const issuePages = pages();
+
+    expect(await sync(client, issuePages)).toEqual({created: 1});
+    expect(client.pages.create).toHaveBeenCalledWith(
+      expect.objectContaining({parent: {database_id: 'db'}})
+    );
+    expect(issuePages.get('I_1')?.pageId).toBe('created-1');
+  });
+
+  it('should update the changed properties of existing pages', async () => {
+    const client = notionClient();
+    const page = {pageId: 'page', nodeId: 'I_1', properties: pageProperties('Old title')};
+
+    expect(await sync(client, pages(page))).toEqual({updated: 1});
+    expect(client.pages.update).toHaveBeenCalledWith({
+      page_id: 'page',
+      properties: {Name: properties.title('Issue 1')},
+    });
+  });
+
+  it('should leave pages without changes', async () => {
+    const client = notionClient();
+    const page = {pageId: 'page', nodeId: 'I_1', properties: pageProperties('Issue 1')};
+
+    expect(await sync(client, pages(page))).toEqual({unchanged: 1});
+    expect(client.pages.update).not.toHaveBeenCalled();
+  });
+});
+
+describe('syncProjectWithNotion', () => {
+  const propertyMapping: PropertyMapping = [
+    {property: 'Name', type: 'title', source: 'title'},
+    {property: 'Issue', type: 'url', source: 'url'},
+    {property: 'Project item', type: 'text', source: 'projectItemId'},
+  ];
+
+  const draftPage = {
+    id: 'draft-page',
+    properties: {
+      Name: {type: 'title', title: [{plain_text: 'Idea'}]},
+      'Project item': {type: 'rich_text', rich_text: [{plain_text: 'item-1'}]},
+    },
+  };
+
+  function mockProjectItems(...nodes: ProjectItem[]) {
+    graphql.mockResolvedValue({
+      repositoryOwner: {
+        projectV2: {
+          title: 'Roadmap',
+          items: {pageInfo: {endCursor: null, hasNextPage: false}, nodes},
+        },
+      },
+    });
+  }
+
+  async function syncProject(client: ReturnType<typeof notionClient>) {
+    const report = createReport({usersLookupEnabled: false});
+    await syncProjectWithNotion({
+      notion: {
+        client: client as unknown as Client,
+        databaseId: 'db',
+        propertyMapping,
+        statusMapping: DEFAULT_STATUS_MAPPING,
+        relations: {users: null, projects: null},
+      },
+      project: {owner: 'owner', number: 1},
+      pullRequests: {
+        databaseId: 'db',
+        propertyMapping: [
+          ...propertyMapping,
+          {property: 'Closes', type: 'issueRelation', source: 'closesIssues'},
+        ],
+      },
+      reconcile: false,
+      report,
+    });
+    return report.counts;
+  }
+
+  it('should relate pull requests to the pages of the issues they close', async () => {
+    const [existing, created] = [issueContent(1), issueContent(2)];
+    mockProjectItems(
+      projectItem('item-3', pullRequestContent(3, [existing.url, created.url])),
+      projectItem('item-1', existing),
+      projectItem('item-2', created)
+    );
+    const client = notionClient([
+      {id: 'page-1', properties: {Issue: {type: 'url', url: existing.url}}},
+    ]);
+
+    expect(await syncProject(client)).toEqual({created: 2});
+    expect(client.pages.create).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        properties: expect.objectContaining({
+          Closes: {type: 'relation', relation: [{id: 'page-1'}, {id: 'created-1'}]},
+        }),
+      })
+    );
+  });
+
+  it('should link the page of a draft converted into an issue to the issue', async () => {
+    const issue = issueContent(1);
+    mockProjectItems(projectItem('item-1', issue));
+    const client = notionClient([draftPage]);
+
+    expect(await syncProject(client)).toEqual({updated: 1});
+    expect(client.pages.create).not.toHaveBeenCalled();
+    expect(client.pages.update).toHaveBeenCalledWith({
+      page_id: 'draft-page',
+      properties: expect.objectContaining({Issue: properties.url(issue.url)}),
+    });
+  });
+
+  it('should archive the page of a converted draft when the issue has its own page', async () => {
+    const issue = issueContent(1);
+    mockProjectItems(projectItem('item-1', issue));
+    const client = notionClient([
+      draftPage,
+      {id: 'issue-page', properties: {Issue: {type: 'url', url: issue.url}}},
+    ]);
+
+    expect(await syncProject(client)).toEqual({'pages-archived': 1});
+    expect(client.pages.update).toHaveBeenCalledTimes(1);
+    expect(client.pages.update).toHaveBeenCalledWith({page_id: 'draft-page', in_trash: true});
+  });
+});
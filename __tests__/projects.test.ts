@@ -0,0 +1,192 @@
+import {graphqlWithAuth} from '../src/action';
+import {
+  getIssueProjects,
+  getProjectFields,
+  ProjectData,
+  readFieldValue,
+  readItemFieldValues,
+} from '../src/projects';
+
+jest.mock('../src/action', () => ({graphqlWithAuth: jest.fn()}));
+
+const graphql = graphqlWithAuth as unknown as jest.Mock;
+
+function list<T>(nodes: T[], hasNextPage = false) {
+  return {pageInfo: {hasNextPage, endCursor: hasNextPage ? 'cursor' : null}, nodes};
+}
+
+function project(number: number, name: string, customFields: ProjectData['customFields']) {
+  return {
+    number,
+    name,
+    url: `https://github.com/orgs/owner/projects/${number}`,
+    itemId: `item-${number}`,
+    customFields,
+  };
+}
+
+describe('readFieldValue', () => {
+  it('should read scalar field values', () => {
+    expect(readFieldValue({field: {name: 'Status'}, name: 'Done'})).toBe('Done');
+    expect(readFieldValue({field: {name: 'Notes'}, text: ''})).toBeNull();
+    expect(readFieldValue({field: {name: 'Estimate'}, number: 0})).toBe(0);
+    expect(readFieldValue({field: {name: 'Due'}, date: '2024-03-01'})).toBe('2024-03-01');
+    expect(readFieldValue({field: {name: 'Milestone'}, milestone: null})).toBeNull();
+    expect(readFieldValue({field: {name: 'Repository'}, repository: {name: 'repo'}})).toBe('repo');
+  });
+
+  it('should read list field values', () => {
+    expect(
+      readFieldValue({field: {name: 'Labels'}, labels: list([{name: 'bug'}, {name: 'ci'}])})
+    ).toEqual(['bug', 'ci']);
+    expect(readFieldValue({field: {name: 'Assignees'}, users: list([{login: 'octocat'}])})).toEqual(
+      ['octocat']
+    );
+    expect(readFieldValue({field: {name: 'Linked pull requests'}, pullRequests: null})).toEqual([]);
+  });
+
+  it('should end iterations on their last day', () => {
+    expect(
+      readFieldValue({
+        field: {name: 'Sprint'},
+        title: 'Sprint 1',
+        startDate: '2024-02-26',
+        duration: 14,
+      })
+    ).toEqual({title: 'Sprint 1', startDate: '2024-02-26', endDate: '2024-03-10'});
+    expect(
+      readFieldValue({field: {name: 'Sprint'}, title: 'Day', startDate: '2024-12-31', duration: 1})
+    ).toEqual({title: 'Day', startDate: '2024-12-31', endDate: '2024-12-31'});
+  });
+
+  it('should skip unknown field values', () => {
+    expect(readFieldValue({field: {name: 'Title'}})).toBeUndefined();
+  });
+});
+
+describe('readItemFieldValues', () => {
+  it('should fetch the labels beyond the first ones', async () => {
+    graphql.mockResolvedValue({
+      node: {fieldValueByName: {labels: list([{name: 'docs'}])}},
+    });
+
+    const fields = await readItemFieldValues('item', {
+      pageInfo: {hasNextPage: false, endCursor: null},
+      nodes: [
+        {field: {name: 'Status'}, name: 'Done'},
+        {field: {name: 'Labels'}, labels: list([{name: 'bug'}, {name: 'ci'}], true)},
+      ],
+    });
+
+    expect(fields).toEqual({Status: 'Done', Labels: ['bug', 'ci', 'docs']});
+    expect(graphql).toHaveBeenCalledTimes(1);
+    expect(graphql.mock.calls[0][1]).toEqual({id: 'item', field: 'Labels', after: 'cursor'});
+  });
+
+  it('should fetch the field values beyond the first page', async () => {
+    graphql.mockResolvedValue({
+      node: {
+        fieldValues: {
+          pageInfo: {hasNextPage: false, endCursor: null},
+          nodes: [{field: {name: 'Estimate'}, number: 3}],
+        },
+      },
+    });
+
+    const fields = await readItemFieldValues('item', {
+      pageInfo: {hasNextPage: true, endCursor: 'cursor'},
+      nodes: [{field: {name: 'Status'}, name: 'Done'}],
+    });
+
+    expect(fields).toEqual({Status: 'Done', Estimate: 3});
+  });
+});
+
+describe('getIssueProjects', () => {
+  function projectItems(number: number, hasNextPage: boolean) {
+    return {
+      pageInfo: {hasNextPage, endCursor: hasNextPage ? 'cursor' : null},
+      nodes: [
+        {
+          id: `item-${number}`,
+          project: {
+            number,
+            title: `Project ${number}`,
+            url: `https://github.com/orgs/owner/projects/${number}`,
+          },
+          fieldValues: list([{field: {name: 'Status'}, name: 'Todo'}]),
+        },
+      ],
+    };
+  }
+
+  it('should read the project items queried with the issue', async () => {
+    const projects = await getIssueProjects({
+      githubRepo: 'owner/repo',
+      issueNumber: 1,
+      projectItems: projectItems(1, false),
+    });
+
+    expect(projects).toEqual([project(1, 'Project 1', {Status: 'Todo'})]);
+    expect(graphql).not.toHaveBeenCalled();
+  });
+
+  it('should fetch the project items beyond those queried with the issue', async () => {
+    graphql.mockResolvedValue({
+      repository: {issueOrPullRequest: {projectItems: projectItems(2, false)}},
+    });
+
+    const projects = await getIssueProjects({
+      githubRepo: 'owner/repo',
+      issueNumber: 2,
+      projectItems: projectItems(1, true),
+    });
+
+    expect(projects.map(project => project.number)).toEqual([1, 2]);
+    expect(graphql).toHaveBeenCalledTimes(1);
+    expect(graphql.mock.calls[0][1]).toEqual({
+      owner: 'owner',
+      repo: 'repo',
+      number: 2,
+      after: 'cursor',
+    });
+  });
+
+  it('should fetch the projects of an issue once per run', async () => {
+    graphql.mockResolvedValue({
+      repository: {issueOrPullRequest: {projectItems: projectItems(1, false)}},
+    });
+
+    await getIssueProjects({githubRepo: 'owner/repo', issueNumber: 3});
+    await getIssueProjects({githubRepo: 'owner/repo', issueNumber: 3});
+
+    expect(graphql).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('getProjectFields', () => {
+  const roadmap = project(1, 'Roadmap', {Status: 'Todo', Priority: null});
+  const sprint = project(2, 'Sprint', {Status: 'Done', Priority: 'High', Estimate: 3});
+
+  it('should leave the fields of issues in no project empty', () => {
+    expect(getProjectFields([], null)).toEqual({});
+    expect(getProjectFields([], 'Roadmap')).toEqual({});
+  });
+
+  it('should use the fields of the primary project, by number or title', () => {
+    expect(getProjectFields([roadmap, sprint], '2')).toBe(sprint.customFields);
+    expect(getProjectFields([roadmap, sprint], ' Sprint ')).toBe(sprint.customFields);
+  });
+
+  it('should leave the fields empty when the issue is not in the primary project', () => {
+    expect(getProjectFields([roadmap, sprint], 'Backlog')).toEqual({});
+  });
+
+  it('should merge the fields of every project, the first one setting a field winning', () => {
+    expect(getProjectFields([roadmap, sprint], null)).toEqual({
+      Status: 'Todo',
+      Priority: 'High',
+      Estimate: 3,
+    });
+  });
+});
@@ -100,7 +100,7 @@ describe('date', () => {
 });
 
 describe('getStatusSelectOption', () => {
-  for (const status of ['open', 'closed'] as const) {
+  for (const status of ['open', 'closed', 'deleted'] as const) {
     it(`should return a select for ${status}`, () => {
       const res = properties.getStatusSelectOption(status);
 
@@ -148,3 +148,34 @@ describe('url', () => {
     expect(res.url).toBe('abc');
   });
 });
+
+describe('status', () => {
+  it('should map a GitHub Project status to a Notion status', () => {
+    expect(properties.status('In review').status.name).toBe('To be checked');
+  });
+
+  it('should fall back to the default Notion status', () => {
+    expect(properties.status('Backlog').status.name).toBe('Not started');
+  });
+});
+
+describe('githubStatus', () => {
+  it('should map a Notion status back to a GitHub Project status', () => {
+    expect(properties.githubStatus('To be checked')).toBe('In review');
+  });
+
+  it('should return null for unmapped Notion statuses', () => {
+    expect(properties.githubStatus('Not started')).toBeNull();
+  });
+});
+
+describe('issueRelation', () => {
+  it('should relate the pages of known issues only', () => {
+    const res = properties.issueRelation(
+      ['https://github.com/owner/repo/issues/1', 'https://github.com/owner/repo/issues/2'],
+      {'https://github.com/owner/repo/issues/1': 'page-id'}
+    );
+
+    expect(res.relation).toEqual([{id: 'page-id'}]);
+  });
+});
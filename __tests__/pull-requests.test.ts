@@ -0,0 +1,29 @@
+import {getClosingIssueUrls} from '../src/pull-requests';
+
+describe('getClosingIssueUrls', () => {
+  it('should read every closing keyword form', () => {
+    const body = [
+      'Closes #1',
+      'fixes: owner/other#2',
+      'Resolved https://github.com/owner/third/issues/3',
+    ].join('\n');
+
+    expect(getClosingIssueUrls(body, 'owner/repo')).toEqual([
+      'https://github.com/owner/repo/issues/1',
+      'https://github.com/owner/other/issues/2',
+      'https://github.com/owner/third/issues/3',
+    ]);
+  });
+
+  it('should ignore plain references and duplicates', () => {
+    const body = 'See #4, relates to #5. Fixes #6 and fix #6.';
+
+    expect(getClosingIssueUrls(body, 'owner/repo')).toEqual([
+      'https://github.com/owner/repo/issues/6',
+    ]);
+  });
+
+  it('should handle empty bodies', () => {
+    expect(getClosingIssueUrls(null, 'owner/repo')).toEqual([]);
+  });
+});
@@ -0,0 +1,89 @@
+import {PROJECT_ITEMS_QUERY} from '../src/project-sync';
+import {ISSUE_PROJECT_ITEMS_QUERY} from '../src/projects';
+import {GITHUB_ISSUES_QUERY} from '../src/sync';
+
+jest.mock('../src/action', () => ({graphqlWithAuth: jest.fn(), getNotionRelations: jest.fn()}));
+
+// GitHub rejects queries that could return more than this many nodes
+const NODE_LIMIT = 500000;
+
+/**
+ * Computes the most nodes a query can return the way GitHub does: each connection can return
+ * `first` nodes for every node of the connections it is nested in.
+ */
+function countNodes(query: string): number {
+  const tokens: string[] = query.match(/\.\.\.|[{}():]|\w+/g) ?? [];
+
+  const fragments = new Map<string, number>();
+  tokens.forEach((token, i) => {
+    if (token === 'fragment') fragments.set(tokens[i + 1], i + 4);
+  });
+
+  // Counts the nodes of the selection set opening at `start`, returns them with the index of its end
+  function countSelections(start: number, multiplier: number): [number, number] {
+    let count = 0;
+    let i = start + 1;
+
+    while (tokens[i] !== '}') {
+      if (tokens[i] === '...') {
+        const fragment = tokens[i + 1] === 'on' ? i + 3 : fragments.get(tokens[i + 1]);
+        const [nodes, end] = countSelections(fragment ?? i, multiplier);
+        count += nodes;
+        i = tokens[i + 1] === 'on' ? end + 1 : i + 2;
+        continue;
+      }
+
+      i += tokens[i + 1] === ':' ? 3 : 1;
+
+      let first = 0;
+      if (tokens[i] === '(') {
+        for (; tokens[i] !== ')'; i++) {
+          if (tokens[i] === 'first' && tokens[i + 1] === ':') first = Number(tokens[i + 2]);
+        }
+        i++;
+      }
+
+      if (tokens[i] === '{') {
+        const [nodes, end] = countSelections(i, first ? multiplier * first : multiplier);
+        count += nodes + multiplier * first;
+        i = end + 1;
+      }
+    }
+
+    return [count, i];
+  }
+
+  return countSelections(tokens.indexOf('{'), 1)[0];
+}
+
+describe('countNodes', () => {
+  it('should multiply the nodes of nested connections', () => {
+    const query = `
+      query {
+        repository(owner: "owner", name: "repo") {
+          issues(first: 10) {
+            nodes {
+              ...labels
+              assignees(first: 5) { nodes { login } }
+            }
+          }
+        }
+      }
+      fragment labels on Issue {
+        labels(first: 20) { nodes { name } }
+      }
+    `;
+
+    expect(countNodes(query)).toBe(10 + 10 * 20 + 10 * 5);
+  });
+});
+
+describe('queries', () => {
+  it.each([
+    ['issue project items', ISSUE_PROJECT_ITEMS_QUERY],
+    ['project items', PROJECT_ITEMS_QUERY],
+    ['repository issues', GITHUB_ISSUES_QUERY],
+  ])('should keep the %s query within the GitHub node limit', (_, query) => {
+    expect(countNodes(query)).toBeLessThanOrEqual(NODE_LIMIT);
+  });
+});
@@ -0,0 +1,61 @@
+import * as core from '@actions/core';
+import {
+  createReport,
+  incrementCount,
+  recordUnmappedAssignees,
+  writeReportOutputs,
+} from '../src/report';
+
+jest.mock('@actions/core', () => ({
+  ...jest.requireActual('@actions/core'),
+  setOutput: jest.fn(),
+  warning: jest.fn(),
+}));
+
+const userRelations = [{githubUsername: 'octocat', notionUserId: 'user-1'}];
+
+describe('writeReportOutputs', () => {
+  it('should write the unmapped assignees of every issue once, sorted', () => {
+    const report = createReport({usersLookupEnabled: true});
+
+    recordUnmappedAssignees(
+      report,
+      'https://github.com/owner/repo/issues/1',
+      ['octocat', 'zed'],
+      userRelations
+    );
+    recordUnmappedAssignees(
+      report,
+      'https://github.com/owner/repo/issues/2',
+      ['zed', 'hubot'],
+      userRelations
+    );
+    writeReportOutputs(report);
+
+    expect(core.setOutput).toHaveBeenCalledWith('unmapped-assignees', 'hubot,zed');
+    expect(core.warning).toHaveBeenCalledTimes(2);
+  });
+
+  it('should write no unmapped assignees when the users lookup is disabled', () => {
+    const report = createReport({usersLookupEnabled: false});
+
+    recordUnmappedAssignees(report, 'https://github.com/owner/repo/issues/1', ['zed'], []);
+    writeReportOutputs(report);
+
+    expect(core.setOutput).toHaveBeenCalledWith('unmapped-assignees', '');
+    expect(core.warning).not.toHaveBeenCalled();
+  });
+
+  it('should write the counters', () => {
+    const report = createReport({usersLookupEnabled: false});
+
+    incrementCount(report, 'created');
+    incrementCount(report, 'created', 2);
+    writeReportOutputs(report);
+
+    expect((core.setOutput as jest.Mock).mock.calls).toEqual([
+      ['unmapped-assignees', ''],
+      ['created', 3],
+    ]);
+  });
+});
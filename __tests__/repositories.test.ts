@@ -0,0 +1,37 @@
+import {
+  isRepositoryPattern,
+  matchesRepositorySelector,
+  parseRepositorySelectors,
+} from '../src/repositories';
+
+describe('parseRepositorySelectors', () => {
+  it('should return null for an empty input', () => {
+    expect(parseRepositorySelectors(' \n')).toBeNull();
+  });
+
+  it('should read comma and newline separated entries', () => {
+    expect(parseRepositorySelectors('owner/repo, owner/api-*\nother/tool')).toEqual([
+      {owner: 'owner', name: 'repo'},
+      {owner: 'owner', name: 'api-*'},
+      {owner: 'other', name: 'tool'},
+    ]);
+  });
+
+  it('should reject entries without an owner', () => {
+    expect(() => parseRepositorySelectors('repo')).toThrow(/Invalid repository "repo"/);
+  });
+});
+
+describe('matchesRepositorySelector', () => {
+  it('should match wildcards and ignore case', () => {
+    const selector = {owner: 'owner', name: 'api-*'};
+
+    expect(isRepositoryPattern(selector)).toBe(true);
+    expect(matchesRepositorySelector('API-gateway', selector)).toBe(true);
+    expect(matchesRepositorySelector('web-api-gateway', selector)).toBe(false);
+  });
+
+  it('should treat other characters literally', () => {
+    expect(matchesRepositorySelector('repoXjs', {owner: 'owner', name: 'repo.js'})).toBe(false);
+  });
+});
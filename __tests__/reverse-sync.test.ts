@@ -0,0 +1,204 @@
+import {Client} from '@notionhq/client/build/src';
+import {graphqlWithAuth} from '../src/action';
+import {PropertyMapping} from '../src/mapping';
+import {CustomValueMap, DEFAULT_STATUS_MAPPING, properties, StatusMapping} from '../src/properties';
+import {createReport} from '../src/report';
+import {keepNewerNotionStatus, reverseSyncStatuses} from '../src/reverse-sync';
+
+jest.mock('../src/action', () => ({graphqlWithAuth: jest.fn()}));
+
+const graphql = graphqlWithAuth as unknown as jest.Mock;
+
+const propertyMapping: PropertyMapping = [
+  {property: 'Issue', type: 'url', source: 'url'},
+  {property: 'Status', type: 'status', source: 'project.Status'},
+];
+
+const url = 'https://github.com/owner/repo/issues/1';
+
+function notionClient(status: string, lastEditedTime = '2024-01-02T00:00:00Z') {
+  const query = jest.fn().mockResolvedValue({
+    results: [
+      {
+        object: 'page',
+        id: 'page',
+        last_edited_time: lastEditedTime,
+        properties: {
+          Issue: {type: 'url', url},
+          Status: {type: 'status', status: {name: status}},
+        },
+      },
+    ],
+    has_more: false,
+    next_cursor: null,
+  });
+  return {databases: {query}} as unknown as Client;
+}
+
+function projectItem(
+  number: number,
+  title: string,
+  currentValue: string | null,
+  updatedAt = '2024-01-01T00:00:00Z'
+) {
+  return {
+    id: `item-${number}`,
+    project: {
+      id: `project-${number}`,
+      number,
+      title,
+      field: {
+        id: 'status-field',
+        options: [
+          {id: 'todo', name: 'Todo'},
+          {id: 'in-progress', name: 'In progress'},
+          {id: 'done', name: 'Done'},
+        ],
+      },
+    },
+    fieldValueByName: currentValue ? {name: currentValue, updatedAt} : null,
+  };
+}
+
+function mockProjectItems(...nodes: Array<ReturnType<typeof projectItem>>) {
+  graphql.mockImplementation(async (query: string) =>
+    query.includes('mutation') ? {} : {resource: {projectItems: {nodes}}}
+  );
+}
+
+function mutations() {
+  return graphql.mock.calls.filter(([query]) => query.includes('mutation'));
+}
+
+async function reverseSync(
+  client: Client,
+  options: {primaryProject?: string; statusMapping?: StatusMapping} = {}
+) {
+  const report = createReport({usersLookupEnabled: false});
+  await reverseSyncStatuses({
+    notion: {
+      client,
+      databaseId: 'db',
+      propertyMapping,
+      statusMapping: options.statusMapping ?? DEFAULT_STATUS_MAPPING,
+    },
+    primaryProject: options.primaryProject ?? null,
+    report,
+  });
+  return report.counts;
+}
+
+describe('reverseSyncStatuses', () => {
+  it('should update items whose status differs from Notion', async () => {
+    mockProjectItems(projectItem(1, 'Roadmap', 'In progress'));
+
+    const counts = await reverseSync(notionClient('Done'));
+
+    expect(counts).toEqual({'reverse-updated': 1});
+    expect(mutations()).toHaveLength(1);
+    expect(mutations()[0][1]).toEqual({
+      projectId: 'project-1',
+      itemId: 'item-1',
+      fieldId: 'status-field',
+      optionId: 'done',
+    });
+  });
+
+  it('should leave items already in the Notion status', async () => {
+    mockProjectItems(projectItem(1, 'Roadmap', 'Done'));
+
+    expect(await reverseSync(notionClient('Done'))).toEqual({'reverse-unchanged': 1});
+    expect(mutations()).toHaveLength(0);
+  });
+
+  it('should leave items in any GitHub status syncing to the Notion status', async () => {
+    mockProjectItems(projectItem(1, 'Roadmap', 'Closed', '2024-01-01T00:00:00Z'));
+    const statusMapping: StatusMapping = {
+      ...DEFAULT_STATUS_MAPPING,
+      statuses: {Done: 'Done', Closed: 'Done'},
+    };
+
+    expect(await reverseSync(notionClient('Done'), {statusMapping})).toEqual({
+      'reverse-unchanged': 1,
+    });
+    expect(mutations()).toHaveLength(0);
+  });
+
+  it('should keep GitHub statuses changed after the Notion page', async () => {
+    mockProjectItems(projectItem(1, 'Roadmap', 'In progress', '2024-01-03T00:00:00Z'));
+
+    expect(await reverseSync(notionClient('Done'))).toEqual({'reverse-conflicts': 1});
+    expect(mutations()).toHaveLength(0);
+  });
+
+  it('should skip projects without an option for the status', async () => {
+    const item = projectItem(1, 'Roadmap', 'Todo');
+    item.project.field.options = [{id: 'todo', name: 'Todo'}];
+    mockProjectItems(item);
+
+    expect(await reverseSync(notionClient('Done'))).toEqual({});
+    expect(mutations()).toHaveLength(0);
+  });
+
+  it('should only update the item of the primary project', async () => {
+    mockProjectItems(projectItem(1, 'Roadmap', 'Todo'), projectItem(2, 'Sprint', 'Todo'));
+
+    expect(await reverseSync(notionClient('Done'), {primaryProject: 'Sprint'})).toEqual({
+      'reverse-updated': 1,
+    });
+    expect(mutations().map(([, variables]) => variables.itemId)).toEqual(['item-2']);
+  });
+
+  it('should skip Notion statuses no GitHub status syncs to', async () => {
+    mockProjectItems(projectItem(1, 'Roadmap', 'Todo'));
+
+    expect(await reverseSync(notionClient('Blocked'))).toEqual({});
+    expect(graphql).not.toHaveBeenCalled();
+  });
+});
+
+describe('keepNewerNotionStatus', () => {
+  const changed = {
+    Status: properties.status('Todo', DEFAULT_STATUS_MAPPING),
+    Issue: properties.url(url),
+  };
+
+  function keep(lastEditedTime?: string, changes: CustomValueMap = changed) {
+    return keepNewerNotionStatus(changes, {
+      propertyMapping,
+      primaryProject: null,
+      page: {pageId: 'page', nodeId: null, properties: null, lastEditedTime},
+      issueUrl: url,
+    });
+  }
+
+  it('should keep the status of pages edited after the GitHub status changed', async () => {
+    mockProjectItems(projectItem(1, 'Roadmap', 'Todo', '2024-01-01T00:00:00Z'));
+
+    expect(await keep('2024-01-02T00:00:00Z')).toEqual({Issue: changed.Issue});
+  });
+
+  it('should send GitHub statuses changed after the page was edited', async () => {
+    mockProjectItems(projectItem(1, 'Roadmap', 'Todo', '2024-01-03T00:00:00Z'));
+
+    expect(await keep('2024-01-02T00:00:00Z')).toEqual(changed);
+  });
+
+  it('should send the status of issues without a GitHub status', async () => {
+    mockProjectItems(projectItem(1, 'Roadmap', null));
+
+    expect(await keep('2024-01-02T00:00:00Z')).toEqual(changed);
+
+    mockProjectItems();
+
+    expect(await keep('2024-01-02T00:00:00Z')).toEqual(changed);
+  });
+
+  it('should not look the GitHub status up when the status is not sent', async () => {
+    expect(await keep('2024-01-02T00:00:00Z', {Issue: changed.Issue})).toEqual({
+      Issue: changed.Issue,
+    });
+    expect(await keep(undefined)).toEqual(changed);
+    expect(graphql).not.toHaveBeenCalled();
+  });
+});
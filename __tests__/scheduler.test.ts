@@ -0,0 +1,165 @@
+import {createScheduler, getRetryDelay} from '../src/scheduler';
+
+function response(headers: Record<string, string>, status = 429) {
+  return new Response(null, {status, headers});
+}
+
+describe('getRetryDelay', () => {
+  it('should wait as long as Retry-After seconds ask', () => {
+    expect(getRetryDelay(response({'retry-after': '2'}), 0)).toBe(2000);
+  });
+
+  it('should wait until the GitHub rate limit resets', () => {
+    const reset = String(Math.floor(Date.now() / 1000) + 10);
+    const delay = getRetryDelay(
+      response({'x-ratelimit-remaining': '0', 'x-ratelimit-reset': reset}, 403),
+      0
+    );
+
+    expect(delay).toBeGreaterThan(8000);
+    expect(delay).toBeLessThanOrEqual(10000);
+  });
+
+  it('should back off exponentially without rate limit headers', () => {
+    const first = getRetryDelay(response({}, 503), 0);
+    const third = getRetryDelay(response({}, 503), 2);
+
+    expect(first).toBeGreaterThanOrEqual(1000);
+    expect(first).toBeLessThan(2000);
+    expect(third).toBeGreaterThanOrEqual(4000);
+    expect(third).toBeLessThan(5000);
+  });
+
+  it('should cap the delay', () => {
+    expect(getRetryDelay(response({'retry-after': '3600'}), 0)).toBe(60000);
+    expect(getRetryDelay(undefined, 20)).toBe(60000);
+  });
+});
+
+describe('createScheduler', () => {
+  const options = {
+    name: 'Notion' as const,
+    requestsPerSecond: 1000,
+    maxConcurrent: 2,
+    maxRetries: 2,
+    timeoutMs: 1000,
+  };
+
+  // Retry-After: 0 retries without waiting
+  function failure(status: number) {
+    return response({'retry-after': '0'}, status);
+  }
+
+  it('should retry GET requests on server errors', async () => {
+    const send = jest
+      .fn()
+      .mockResolvedValueOnce(failure(502))
+      .mockResolvedValueOnce(new Response('ok'));
+    const scheduler = createScheduler(options, send);
+
+    const result = await scheduler.fetch('https://example.com/items');
+
+    expect(result.status).toBe(200);
+    expect(send).toHaveBeenCalledTimes(2);
+    expect(scheduler.stats).toEqual({requests: 1, retried: 1, failed: 0});
+  });
+
+  it('should retry queries sent with a POST on server errors', async () => {
+    const send = () =>
+      jest.fn().mockResolvedValueOnce(failure(502)).mockResolvedValue(new Response('ok'));
+    const notion = createScheduler(options, send());
+    const github = createScheduler({...options, name: 'GitHub'}, send());
+
+    const query = await notion.fetch('https://api.notion.com/v1/databases/db/query', {
+      method: 'POST',
+      body: '{}',
+    });
+    const graphql = await github.fetch('https://api.github.com/graphql', {
+      method: 'POST',
+      body: JSON.stringify({query: 'query { viewer { login } }'}),
+    });
+
+    expect([query.status, graphql.status]).toEqual([200, 200]);
+    expect(notion.stats).toEqual({requests: 1, retried: 1, failed: 0});
+    expect(github.stats).toEqual({requests: 1, retried: 1, failed: 0});
+  });
+
+  it('should not retry GitHub mutations on server errors', async () => {
+    const send = jest.fn().mockResolvedValue(failure(502));
+    const scheduler = createScheduler({...options, name: 'GitHub'}, send);
+
+    const result = await scheduler.fetch('https://api.github.com/graphql', {
+      method: 'POST',
+      body: JSON.stringify({query: 'mutation { addComment { clientMutationId } }'}),
+    });
+
+    expect(result.status).toBe(502);
+    expect(send).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not retry writes on server errors', async () => {
+    const send = jest.fn().mockResolvedValue(failure(504));
+    const scheduler = createScheduler(options, send);
+
+    const result = await scheduler.fetch('https://example.com/pages', {method: 'POST'});
+
+    expect(result.status).toBe(504);
+    expect(send).toHaveBeenCalledTimes(1);
+    expect(scheduler.stats).toEqual({requests: 1, retried: 0, failed: 1});
+  });
+
+  it('should not retry writes after a network error', async () => {
+    const send = jest.fn().mockRejectedValue(new Error('socket hang up'));
+    const scheduler = createScheduler(options, send);
+
+    await expect(scheduler.fetch('https://example.com/pages', {method: 'POST'})).rejects.toThrow(
+      'socket hang up'
+    );
+    expect(send).toHaveBeenCalledTimes(1);
+    expect(scheduler.stats.failed).toBe(1);
+  });
+
+  it('should retry rate limited requests of any method', async () => {
+    const send = jest
+      .fn()
+      .mockResolvedValueOnce(failure(429))
+      .mockResolvedValueOnce(new Response('ok'));
+    const scheduler = createScheduler(options, send);
+
+    const result = await scheduler.fetch('https://example.com/pages', {method: 'POST'});
+
+    expect(result.status).toBe(200);
+    expect(scheduler.stats).toEqual({requests: 1, retried: 1, failed: 0});
+  });
+
+  it('should count requests still failing after their retries', async () => {
+    const send = jest.fn().mockResolvedValue(failure(429));
+    const scheduler = createScheduler(options, send);
+
+    const result = await scheduler.fetch('https://example.com/pages', {method: 'POST'});
+
+    expect(result.status).toBe(429);
+    expect(send).toHaveBeenCalledTimes(3);
+    expect(scheduler.stats).toEqual({requests: 1, retried: 2, failed: 1});
+  });
+
+  it('should not run more requests at once than maxConcurrent', async () => {
+    let active = 0;
+    let maxActive = 0;
+    const send = jest.fn(async () => {
+      active++;
+      maxActive = Math.max(maxActive, active);
+      await new Promise(resolve => setTimeout(resolve, 5));
+      active--;
+      return new Response('ok');
+    });
+    const scheduler = createScheduler(options, send);
+
+    await Promise.all(
+      Array.from({length: 8}, (_, i) => scheduler.fetch(`https://example.com/items/${i}`))
+    );
+
+    expect(send).toHaveBeenCalledTimes(8);
+    expect(maxActive).toBe(2);
+  });
+});
@@ -0,0 +1,179 @@
+import {Client} from '@notionhq/client/build/src';
+import {properties} from '../src/properties';
+import {
+  DEFAULT_ISSUE_FILTERS,
+  findIssuePage,
+  getGraphQLIssueFilters,
+  IssueFilters,
+  IssuePage,
+  matchesClientSideFilters,
+  setIssuePage,
+  storePageNodeId,
+} from '../src/sync';
+
+jest.mock('../src/action', () => ({graphqlWithAuth: jest.fn(), getNotionRelations: jest.fn()}));
+
+function filters(changes: Partial<IssueFilters>): IssueFilters {
+  return {...DEFAULT_ISSUE_FILTERS, ...changes};
+}
+
+describe('getGraphQLIssueFilters', () => {
+  it('should map the issue state to GitHub states', () => {
+    expect(getGraphQLIssueFilters(filters({state: 'open'})).states).toEqual(['OPEN']);
+    expect(getGraphQLIssueFilters(filters({state: 'closed'})).states).toEqual(['CLOSED']);
+    expect(getGraphQLIssueFilters(filters({state: 'all'})).states).toEqual(['OPEN', 'CLOSED']);
+  });
+
+  it('should let GitHub filter milestone numbers, any milestone and none', () => {
+    expect(getGraphQLIssueFilters(filters({milestone: '3'})).milestoneNumber).toBe('3');
+    expect(getGraphQLIssueFilters(filters({milestone: '*'})).milestoneNumber).toBe('*');
+    expect(getGraphQLIssueFilters(filters({milestone: 'none'})).milestoneNumber).toBe('none');
+  });
+
+  it('should leave milestone titles out', () => {
+    expect(getGraphQLIssueFilters(filters({milestone: 'v1.0'})).milestoneNumber).toBeUndefined();
+  });
+
+  it('should pass labels, assignee and updatedSince', () => {
+    const updatedSince = new Date('2024-01-01T00:00:00Z');
+
+    expect(
+      getGraphQLIssueFilters(filters({labels: ['bug'], assignee: 'octocat', updatedSince}))
+    ).toEqual({
+      states: ['OPEN'],
+      labels: ['bug'],
+      assignee: 'octocat',
+      milestoneNumber: undefined,
+      since: '2024-01-01T00:00:00.000Z',
+    });
+  });
+
+  it('should leave out empty filters', () => {
+    expect(getGraphQLIssueFilters(DEFAULT_ISSUE_FILTERS)).toEqual({
+      states: ['OPEN'],
+      labels: undefined,
+      assignee: undefined,
+      milestoneNumber: undefined,
+      since: undefined,
+    });
+  });
+});
+
+describe('matchesClientSideFilters', () => {
+  const issue = {createdAt: '2024-02-01T00:00:00Z', milestone: {title: 'v1.0'}};
+
+  it('should match issues created at or after createdSince', () => {
+    expect(
+      matchesClientSideFilters(issue, filters({createdSince: new Date('2024-02-01T00:00:00Z')}))
+    ).toBe(true);
+    expect(
+      matchesClientSideFilters(issue, filters({createdSince: new Date('2024-02-02T00:00:00Z')}))
+    ).toBe(false);
+  });
+
+  it('should match milestone titles', () => {
+    expect(matchesClientSideFilters(issue, filters({milestone: 'v1.0'}))).toBe(true);
+    expect(matchesClientSideFilters(issue, filters({milestone: 'v2.0'}))).toBe(false);
+    expect(
+      matchesClientSideFilters({...issue, milestone: null}, filters({milestone: 'v1.0'}))
+    ).toBe(false);
+  });
+
+  it('should leave milestone numbers to GitHub', () => {
+    expect(matchesClientSideFilters(issue, filters({milestone: '3'}))).toBe(true);
+    expect(matchesClientSideFilters({...issue, milestone: null}, filters({milestone: '*'}))).toBe(
+      true
+    );
+  });
+});
+
+describe('findIssuePage', () => {
+  const issue = {url: 'https://github.com/owner/repo/issues/1', nodeId: 'I_1'};
+
+  function issuePages(page: IssuePage, key: string) {
+    return new Map([[key, page]]);
+  }
+
+  it('should find pages by node ID', () => {
+    const page = {pageId: 'page', nodeId: 'I_1', properties: null};
+
+    expect(findIssuePage(issuePages(page, 'I_1'), issue)).toBe(page);
+  });
+
+  it('should fall back to the URL for pages without a node ID', () => {
+    const page = {pageId: 'page', nodeId: null, properties: null};
+
+    expect(findIssuePage(issuePages(page, issue.url), issue)).toBe(page);
+    expect(findIssuePage(issuePages(page, issue.url), {...issue, nodeId: null})).toBe(page);
+  });
+
+  it('should not match a page whose URL belongs to another node ID', () => {
+    const page = {pageId: 'page', nodeId: 'I_other', properties: null};
+
+    expect(findIssuePage(issuePages(page, issue.url), issue)).toBeUndefined();
+  });
+});
+
+describe('setIssuePage', () => {
+  it('should map the page by URL and by node ID', () => {
+    const pages = new Map<string, IssuePage>();
+    const page = {pageId: 'page', nodeId: 'I_1', properties: null};
+
+    setIssuePage(pages, {url: 'https://github.com/owner/repo/issues/1', nodeId: 'I_1'}, page);
+    setIssuePage(pages, {url: 'https://github.com/owner/repo/issues/2', nodeId: null}, page);
+
+    expect([...pages.keys()]).toEqual([
+      'https://github.com/owner/repo/issues/1',
+      'I_1',
+      'https://github.com/owner/repo/issues/2',
+    ]);
+  });
+});
+
+describe('storePageNodeId', () => {
+  const issue = {url: 'https://github.com/owner/repo/issues/1', nodeId: 'I_1'};
+
+  function notionClient() {
+    return {pages: {update: jest.fn().mockResolvedValue({})}};
+  }
+
+  it('should store the node ID on pages found by URL once', async () => {
+    const client = notionClient();
+    const page: IssuePage = {pageId: 'page', nodeId: null, properties: null};
+
+    await storePageNodeId(client as unknown as Client, page, 'Node ID', issue);
+    await storePageNodeId(client as unknown as Client, page, 'Node ID', issue);
+
+    expect(client.pages.update).toHaveBeenCalledTimes(1);
+    expect(client.pages.update).toHaveBeenCalledWith({
+      page_id: 'page',
+      properties: {'Node ID': properties.text('I_1')},
+    });
+    expect(page.nodeId).toBe('I_1');
+  });
+
+  it('should refresh the properties of the page from the response', async () => {
+    const client = notionClient();
+    const stored = {'Node ID': {type: 'rich_text', rich_text: [{plain_text: 'I_1'}]}};
+    client.pages.update.mockResolvedValue({
+      object: 'page',
+      id: 'page',
+      url: '',
+      properties: stored,
+    });
+    const page = {pageId: 'page', nodeId: null, properties: {}} as unknown as IssuePage;
+
+    await storePageNodeId(client as unknown as Client, page, 'Node ID', issue);
+
+    expect(page.properties).toBe(stored);
+  });
+
+  it('should leave pages alone when the node ID of the issue is unknown', async () => {
+    const client = notionClient();
+    const page: IssuePage = {pageId: 'page', nodeId: null, properties: null};
+
+    await storePageNodeId(client as unknown as Client, page, 'Node ID', {...issue, nodeId: null});
+
+    expect(client.pages.update).not.toHaveBeenCalled();
+  });
+});
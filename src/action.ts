@@ -1,229 +1,116 @@
-import { Client, LogLevel } from '@notionhq/client/build/src';
+import { Client, isFullPage, LogLevel } from '@notionhq/client/build/src';
 import * as core from '@actions/core';
-import type { IssuesEvent, IssuesOpenedEvent } from '@octokit/webhooks-definitions/schema';
+import type {
+  IssueCommentEvent,
+  IssuesDeletedEvent,
+  IssuesEvent,
+  IssuesOpenedEvent,
+  IssuesTransferredEvent,
+  PullRequestEvent,
+} from '@octokit/webhooks-definitions/schema';
 import type { WebhookPayload } from '@actions/github/lib/interfaces';
-import { CustomValueMap, properties } from './properties';
-import { createIssueMapping, syncNotionDBWithGitHub } from './sync';
+import { CustomValueMap, StatusMapping } from './properties';
+import { buildProperties, getIssueUrlProperty, getNodeIdProperty, IssueFields, PropertyMapping } from './mapping';
+import { keepNewerNotionStatus, reverseSyncStatuses } from './reverse-sync';
+import { ProjectSyncConfig, syncProjectWithNotion } from './project-sync';
+import { dedupeDatabase, DedupeConfig } from './dedupe';
+import { createReport, recordUnmappedAssignees, SyncReport, writeReportOutputs } from './report';
+import {
+  createIssueMapping,
+  IssueFilters,
+  IssueKey,
+  IssuePage,
+  resolveRepositories,
+  storePageNodeId,
+  syncNotionDBWithGitHub,
+} from './sync';
+import { RepositorySelector } from './repositories';
 import { markdownToRichText } from '@tryfabric/martian';
 import { CustomTypes } from './api-types';
-import { CreatePageParameters } from '@notionhq/client/build/src/api-endpoints';
+import { PageObjectResponse, QueryDatabaseResponse } from '@notionhq/client/build/src/api-endpoints';
+import {
+  createPageWithBlocks,
+  getBodyChildrenBlocks,
+  listChildBlocks,
+  removeHTML,
+  syncBodyRegion,
+} from './blocks';
+import { deleteCommentBlock, upsertCommentBlock } from './comments';
+import { getChangedProperties } from './compare';
+import { getIssueProjects, getProjectFields, ProjectData } from './projects';
+import { getPullRequestFields, PullRequestSyncConfig } from './pull-requests';
 
 import { graphql } from '@octokit/graphql';
+import { githubScheduler, notionScheduler, recordSchedulerStats } from './scheduler';
+import { dataCache, recordCacheStats } from './cache';
+import { dryRun, writeDryRunPlan } from './dry-run';
+
+const NOTION_CLIENT_TIMEOUT_MS = 30 * 60 * 1000;
 
 export const graphqlWithAuth = graphql.defaults({
   headers: {
     authorization: `token ${core.getInput('github-token', { required: true })}`,
   },
+  request: {
+    fetch: dryRun.wrap('GitHub', githubScheduler.fetch),
+  },
 });
 
-function removeHTML(text?: string): string {
-  return text?.replace(/<.*>.*<\/.*>/g, '') ?? '';
+function getIssueFieldsFromPayload(
+  payload: IssuesEvent,
+  projects: ProjectData[] = [],
+  projectFields: IssueFields['projectFields'] = {}
+): IssueFields {
+  return {
+    title: payload.issue.title,
+    number: payload.issue.number,
+    state: payload.issue.state ?? 'open',
+    url: payload.issue.html_url,
+    repository: payload.repository.name,
+    assignees: payload.issue.assignees.map(assignee => assignee.login),
+    labels: payload.issue.labels?.map(label => label.name) ?? [],
+    milestone: payload.issue.milestone?.title ?? null,
+    author: payload.issue.user?.login ?? null,
+    createdAt: payload.issue.created_at,
+    updatedAt: payload.issue.updated_at,
+    closedAt: payload.issue.closed_at,
+    projects: projects.map(project => project.name),
+    projectFields,
+    nodeId: payload.issue.node_id,
+  };
+}
+
+function getPayloadIssueKey(issue: { html_url: string; node_id: string }): IssueKey {
+  return { url: issue.html_url, nodeId: issue.node_id };
 }
 
 interface PayloadParsingOptions {
   payload: IssuesEvent;
   userRelations: userRelationGithubNotionType[];
   notionProjects: NotionProjectInfo[];
+  propertyMapping: PropertyMapping;
+  statusMapping: StatusMapping;
+  primaryProject: string | null;
+  report: SyncReport;
 }
 async function parsePropertiesFromPayload(options: PayloadParsingOptions): Promise<CustomValueMap> {
-  const { payload, userRelations, notionProjects } = options;
-
-  payload.issue.labels?.map(label => label.color);
+  const { payload, userRelations, notionProjects, propertyMapping, statusMapping, primaryProject, report } =
+    options;
 
-  const project = await getProject({
+  const projects = await getIssueProjects({
     githubRepo: payload.repository.full_name,
-    issueNumber: payload.issue.number
+    issueNumber: payload.issue.number,
   });
 
-  // core.info(`Current project data: ${JSON.stringify(project, null, 2)}`);
-
-  const result: CustomValueMap = {
-    Name: properties.title(payload.issue.title),
-    Status: properties.status(project.customFields?.['Status'] as string),
-    Repository: properties.text(payload.repository.name),
-    Assignee: properties.person(payload.issue.assignees.map(assignee => assignee.login), userRelations),
-    Labels: properties.multiSelect(payload.issue.labels?.map(label => label.name) ?? []),
-    Issue: properties.url(payload.issue.html_url),
-    Project: properties.relation((project.customFields && project.customFields['Project KEY']) as string, notionProjects),
-    'Task group': properties.text("Development")
-  };
-
-  core.info(`Parsed properties: ${JSON.stringify(result, null, 2)}`);
+  const issue = getIssueFieldsFromPayload(payload, projects, getProjectFields(projects, primaryProject));
 
-  return result;
-}
-
-interface ProjectData {
-  name: string;
-  url: string;
-  customFields?: Record<string, string | number | null>;
-}
-interface GetProjectDataOptions {
-  githubRepo: string;
-  issueNumber: number;
-}
-export async function getProject(
-  options: GetProjectDataOptions
-): Promise<ProjectData> {
-  const { githubRepo, issueNumber } = options;
-
-  core.info(`Fetching projectsV2 for issue #${issueNumber} in repo ${githubRepo}`);
-
-  // Updated GraphQL query to fetch all fields and field values
-  // Pagination for projectsV2
-  let queryProjects: any[] = [];
-  let hasNextPage = true;
-  let endCursor: string | null = null;
-
-  while (hasNextPage) {
-    const projectsResponse = await graphqlWithAuth(
-      `
-      query($owner: String!, $repo: String!, $after: String) {
-        repository(owner: $owner, name: $repo) {
-          projectsV2(first: 20, after: $after) {
-            nodes {
-              id
-              number
-              title
-              url
-              fields(first: 20) {
-                nodes {
-                  ... on ProjectV2FieldCommon {
-                    id
-                    name
-                    dataType
-                  }
-                }
-              }
-              items(first: 100) {
-                nodes {
-                  content {
-                    ... on Issue {
-                      issueNumber: number
-                      state
-                    }
-                  }
-                  fieldValues(first: 20) {
-                    nodes {
-                      ... on ProjectV2ItemFieldSingleSelectValue {
-                        field {
-                          ... on ProjectV2FieldCommon {
-                            id
-                            name
-                          }
-                        }
-                        name
-                      }
-                      ... on ProjectV2ItemFieldTextValue {
-                        field {
-                          ... on ProjectV2FieldCommon {
-                            id
-                            name
-                          }
-                        }
-                        text
-                      }
-                      ... on ProjectV2ItemFieldNumberValue {
-                        field {
-                          ... on ProjectV2FieldCommon {
-                            id
-                            name
-                          }
-                        }
-                        number
-                      }
-                    }
-                  }
-                }
-              }
-            }
-            pageInfo {
-              hasNextPage
-              endCursor
-            }
-          }
-        }
-      }
-      `,
-      {
-        owner: githubRepo.split('/')[0],
-        repo: githubRepo.split('/')[1],
-        after: endCursor,
-      }
-    ) as {
-      repository: {
-        projectsV2: {
-          nodes: Array<{
-            id: string;
-            number: number;
-            title: string;
-            url: string;
-            fields: {
-              nodes: Array<{
-                id: string;
-                name: string;
-                dataType: string;
-              }>;
-            };
-            items: {
-              nodes: Array<{
-                content: {
-                  issueNumber: number;
-                  state?: string;
-                } | null;
-                fieldValues: {
-                  nodes: Array<{
-                    field?: { id: string; name: string };
-                    name?: string;
-                    text?: string;
-                    number?: number;
-                  }>;
-                };
-              }>;
-            };
-          }>;
-          pageInfo: {
-            hasNextPage: boolean;
-            endCursor: string | null;
-          };
-        };
-      };
-    };
-
-    queryProjects = queryProjects.concat(projectsResponse.repository.projectsV2.nodes);
-    hasNextPage = projectsResponse.repository.projectsV2.pageInfo.hasNextPage;
-    endCursor = projectsResponse.repository.projectsV2.pageInfo.endCursor;
-  }
+  recordUnmappedAssignees(report, issue.url, issue.assignees, userRelations);
 
-  core.info(`Found ${queryProjects.length} projectsV2 in the repository.`);
-
-  const projects: ProjectData[] = [];
-
-  for (const project of queryProjects) {
-    for (const item of project.items.nodes) {
-      // core.info(`Checking item with content: ${JSON.stringify(item)}`);
-      if (item.content && item.content.issueNumber === issueNumber) {
-        // Extract custom fields and their values
-        const customFields: Record<string, string | number | null> = {};
-        for (const fieldValue of item.fieldValues.nodes) {
-          const fieldName = fieldValue.field?.name;
-          let value: string | number | null = null;
-          if ('name' in fieldValue && fieldValue.name) value = fieldValue.name;
-          if ('text' in fieldValue && fieldValue.text) value = fieldValue.text;
-          if ('number' in fieldValue && fieldValue.number !== undefined) value = fieldValue.number;
-          if (fieldName) customFields[fieldName] = value;
-        }
+  const result = buildProperties(propertyMapping, issue, { userRelations, notionProjects, statusMapping });
 
-        projects.push({
-          name: project.title,
-          url: project.url,
-          customFields,
-        });
-      }
-    }
-  }
+  core.info(`Parsed properties: ${JSON.stringify(result, null, 2)}`);
 
-  return projects[0];
+  return result;
 }
 
 /**
@@ -237,58 +124,124 @@ export interface userRelationGithubNotionType {
   notionUserId: string;
 };
 
+/**
+ * Where the GitHub username to Notion user relations are read from.
+ *
+ * @property databaseId - The Notion database listing the people.
+ * @property githubProperty - The property holding the GitHub profile URL or username.
+ * @property personProperty - The people property holding the Notion user.
+ */
+export interface NotionUsersConfig {
+  databaseId: string;
+  githubProperty: string;
+  personProperty: string;
+}
+
+/**
+ * Where the Notion projects referenced by the 'Project KEY' GitHub Project field are read from.
+ *
+ * @property databaseId - The Notion database listing the projects.
+ * @property keyProperty - The property holding the project key.
+ */
+export interface NotionProjectsConfig {
+  databaseId: string;
+  keyProperty: string;
+}
+
+/**
+ * Configuration of the relation lookups. A `null` lookup is disabled and yields no relations.
+ */
+export interface NotionRelationsConfig {
+  users: NotionUsersConfig | null;
+  projects: NotionProjectsConfig | null;
+}
+
+type PageProperty = PageObjectResponse['properties'][string];
+
+/**
+ * Reads a plain text value from a URL, text, title, select or string formula property.
+ */
+function getPropertyPlainText(property: PageProperty | undefined): string | null {
+  if (!property) return null;
+
+  switch (property.type) {
+    case 'url':
+      return property.url;
+    case 'rich_text':
+      return property.rich_text.map(text => text.plain_text).join('') || null;
+    case 'title':
+      return property.title.map(text => text.plain_text).join('') || null;
+    case 'select':
+      return property.select?.name ?? null;
+    case 'formula':
+      return property.formula.type === 'string' ? property.formula.string : null;
+    default:
+      return null;
+  }
+}
+
 /**
  * Fetches relations between GitHub usernames and Notion user IDs from a Notion database.
- * Expects the database to have a 'GitHub' URL property and a 'Name' people property.
+ * Expects the database to have a GitHub URL (or username) property and a people property,
+ * both named in the configuration.
  *
  * @param notionClient - The Notion API client
+ * @param config - The users database and its property names
  * @returns Array of objects mapping GitHub usernames to Notion user IDs
  */
 export async function getRelationsBetweenGithubAndNotionUsers(
-  notionClient: Client
+  notionClient: Client,
+  config: NotionUsersConfig
 ): Promise<userRelationGithubNotionType[]> {
   const relations: userRelationGithubNotionType[] = [];
-  const response = await notionClient.databases.query({
-    database_id: '1b19b8aa93f343fa9ac4a553c92232db',
-  });
+  let hasMore = true;
+  let startCursor: string | undefined = undefined;
 
-  for (const result of response.results) {
-    // Type guard: Ensure result is a full page object with properties
-    if (
-      result.object === 'page' &&
-      'properties' in result
-    ) {
-      const githubProp = result.properties['GitHub'];
-      const nameProp = result.properties['Name'];
+  while (hasMore) {
+    const response = await notionClient.databases.query({
+      database_id: config.databaseId,
+      start_cursor: startCursor,
+      page_size: 100,
+    });
 
+    for (const result of response.results) {
+      // Type guard: Ensure result is a full page object with properties
       if (
-        githubProp &&
-        githubProp.type === 'url' &&
-        githubProp.url &&
-        nameProp &&
-        nameProp.type === 'people' &&
-        nameProp.people.length > 0
+        result.object === 'page' &&
+        'properties' in result
       ) {
-        // Find the first person-type user in the people array
-        const person = nameProp.people.find(
-          (p) =>
-            p.object === 'user' &&
-            'type' in p && // Type guard for 'type'
-            p.type === 'person' &&
-            !!p.id
-        );
-        if (person) {
-          const githubUrl = githubProp.url;
-          const githubUsername = githubUrl.split('/').pop();
-          if (githubUsername) {
-            relations.push({
-              githubUsername,
-              notionUserId: person.id,
-            });
+        const githubUrl = getPropertyPlainText(result.properties[config.githubProperty]);
+        const nameProp = result.properties[config.personProperty];
+
+        if (
+          githubUrl &&
+          nameProp &&
+          nameProp.type === 'people' &&
+          nameProp.people.length > 0
+        ) {
+          // Find the first person-type user in the people array
+          const person = nameProp.people.find(
+            (p) =>
+              p.object === 'user' &&
+              'type' in p && // Type guard for 'type'
+              p.type === 'person' &&
+              !!p.id
+          );
+          if (person) {
+            const githubUsername = githubUrl.replace(/\/+$/, '').split('/').pop();
+            if (githubUsername) {
+              relations.push({
+                githubUsername,
+                notionUserId: person.id,
+              });
+            }
           }
         }
       }
     }
+
+    hasMore = response.has_more;
+    startCursor = response.next_cursor ?? undefined;
   }
 
   return relations;
@@ -302,167 +255,559 @@ export function parseBodyRichText(body: string) {
   }
 }
 
-function getBodyChildrenBlocks(body: string): Exclude<CreatePageParameters['children'], undefined> {
-  // We're currently using only one paragraph block, but this could be extended to multiple kinds of blocks.
-  return [
-    {
-      type: 'paragraph',
-      paragraph: {
-        rich_text: parseBodyRichText(body),
-      },
-    },
-  ];
-}
-
 export interface NotionRelationsInterface {
   users: userRelationGithubNotionType[];
   projects: NotionProjectInfo[];
 }
 
-export async function getNotionRelations(client: Client): Promise<NotionRelationsInterface> {
-  const users = await getRelationsBetweenGithubAndNotionUsers(client);
+/**
+ * Returns the last edit time of the most recently edited page of a database, which changes
+ * whenever one of its pages is added or edited.
+ */
+async function getDatabaseVersion(client: Client, databaseId: string): Promise<string | null> {
+  const response = await client.databases.query({
+    database_id: databaseId,
+    sorts: [{ timestamp: 'last_edited_time', direction: 'descending' }],
+    page_size: 1,
+  });
+  const page = response.results[0];
 
-  core.info(
-    `Found ${users.length} relations between GitHub usernames and Notion user IDs`
-  );
+  return page && 'last_edited_time' in page ? page.last_edited_time : null;
+}
+
+/**
+ * Reads the relations of the configured lookups, once per run. They are also reused across runs
+ * while the persisted cache is fresh and the looked up databases are unchanged.
+ */
+export async function getNotionRelations(
+  client: Client,
+  config: NotionRelationsConfig
+): Promise<NotionRelationsInterface> {
+  let users: userRelationGithubNotionType[] = [];
+  if (config.users) {
+    const usersConfig = config.users;
+    users = await dataCache.get(
+      `notion-users/${usersConfig.databaseId}/${usersConfig.githubProperty}/${usersConfig.personProperty}`,
+      () => getRelationsBetweenGithubAndNotionUsers(client, usersConfig),
+      () => getDatabaseVersion(client, usersConfig.databaseId)
+    );
+
+    core.info(
+      `Found ${users.length} relations between GitHub usernames and Notion user IDs`
+    );
+  } else {
+    core.info('Notion users lookup is disabled');
+  }
 
-  const projects = await getNotionProjects(client);
+  let projects: NotionProjectInfo[] = [];
+  if (config.projects) {
+    const projectsConfig = config.projects;
+    projects = await dataCache.get(
+      `notion-projects/${projectsConfig.databaseId}/${projectsConfig.keyProperty}`,
+      () => getNotionProjects(client, projectsConfig),
+      () => getDatabaseVersion(client, projectsConfig.databaseId)
+    );
 
-  core.info(`Found ${projects.length} Notion projects`);
+    core.info(`Found ${projects.length} Notion projects`);
+  } else {
+    core.info('Notion projects lookup is disabled');
+  }
 
   return {
     users,
     projects,
   };
 }
+interface FindPageOptions {
+  client: Client;
+  databaseId: string;
+  propertyMapping: PropertyMapping;
+}
+
+function toIssuePage(result: QueryDatabaseResponse['results'][number], nodeIdProperty: string | null): IssuePage {
+  const page = isFullPage(result) ? result : null;
+  const nodeId =
+    nodeIdProperty && page ? getPropertyPlainText(page.properties[nodeIdProperty]) : null;
+
+  return {
+    pageId: result.id,
+    nodeId,
+    properties: page?.properties ?? null,
+    lastEditedTime: page?.last_edited_time,
+  };
+}
+
+/**
+ * Finds the page of an issue by its node ID when the property mapping stores it, then by its
+ * URL. The node ID is stored on pages found by URL, so they are still found once the URL changes.
+ *
+ * @returns The page with its current properties, or `null` when the issue has no page yet
+ */
+export async function findPageForIssue(notion: FindPageOptions, issue: IssueKey): Promise<IssuePage | null> {
+  const nodeIdProperty = getNodeIdProperty(notion.propertyMapping);
+
+  if (nodeIdProperty && issue.nodeId) {
+    core.info(`Querying database for task for github issue ${issue.nodeId}`);
+
+    const query = await notion.client.databases.query({
+      database_id: notion.databaseId,
+      filter: {
+        property: nodeIdProperty,
+        rich_text: {
+          equals: issue.nodeId,
+        },
+      },
+      page_size: 1,
+    });
+
+    if (query.results.length > 0) {
+      core.info(`Query successful: Page ${query.results[0].id}`);
+      return toIssuePage(query.results[0], nodeIdProperty);
+    }
+  }
+
+  core.info(`Querying database for task for github issue ${issue.url}`);
+
+  const query = await notion.client.databases.query({
+    database_id: notion.databaseId,
+    filter: {
+      property: getIssueUrlProperty(notion.propertyMapping),
+      url: {
+        equals: issue.url,
+      },
+    },
+    page_size: 1,
+  });
+
+  if (query.results.length === 0) return null;
+
+  const page = toIssuePage(query.results[0], nodeIdProperty);
+  core.info(`Query successful: Page ${page.pageId}`);
+
+  if (nodeIdProperty) {
+    if (page.nodeId && issue.nodeId && page.nodeId !== issue.nodeId) {
+      core.info(`Page ${page.pageId} belongs to issue ${page.nodeId}, which had the URL ${issue.url} before`);
+      return null;
+    }
+
+    await storePageNodeId(notion.client, page, nodeIdProperty, issue);
+  }
+
+  return page;
+}
+
+/**
+ * Sends only the properties that differ from the current ones of the page, and nothing when the
+ * page is up to date, so events that change nothing it shows leave its history alone. A status
+ * set in Notion after the GitHub status last changed is kept, see `keepNewerNotionStatus`.
+ */
+async function updateChangedProperties(
+  notion: FindPageOptions,
+  page: IssuePage,
+  properties: CustomValueMap,
+  issueUrl: string,
+  primaryProject: string | null = null
+) {
+  const changed = await keepNewerNotionStatus(
+    page.properties ? getChangedProperties(page.properties, properties) : properties,
+    {
+      propertyMapping: notion.propertyMapping,
+      primaryProject,
+      page,
+      issueUrl,
+    }
+  );
+  const changedNames = Object.keys(changed);
+
+  if (changedNames.length === 0) {
+    core.info(`Page ${page.pageId} of ${issueUrl} is up to date`);
+    return;
+  }
+
+  core.info(`Updating ${changedNames.join(', ')} of page ${page.pageId} for ${issueUrl}`);
+  await notion.client.pages.update({ page_id: page.pageId, properties: changed });
+}
+
 interface IssueOpenedOptions {
   notion: {
     client: Client;
     databaseId: string;
+    propertyMapping: PropertyMapping;
+    statusMapping: StatusMapping;
+    relations: NotionRelationsConfig;
   };
   payload: IssuesOpenedEvent;
+  primaryProject: string | null;
+  report: SyncReport;
 }
 
 async function handleIssueOpened(options: IssueOpenedOptions) {
-  const { notion, payload } = options;
+  const { notion, payload, primaryProject, report } = options;
 
   core.info(`Creating task for issue #${payload.issue.html_url}`);
 
-  const notionRelations = await getNotionRelations(notion.client);
+  const notionRelations = await getNotionRelations(notion.client, notion.relations);
 
-  await notion.client.pages.create({
-    parent: {
-      database_id: notion.databaseId,
+  await createPageWithBlocks(
+    notion.client,
+    {
+      parent: {
+        database_id: notion.databaseId,
+      },
+      properties: await parsePropertiesFromPayload({
+        payload,
+        userRelations: notionRelations.users,
+        notionProjects: notionRelations.projects,
+        propertyMapping: notion.propertyMapping,
+        statusMapping: notion.statusMapping,
+        primaryProject,
+        report,
+      }),
     },
-    properties: await parsePropertiesFromPayload({
-      payload,
-      userRelations: notionRelations.users,
-      notionProjects: notionRelations.projects
-    }),
-    children: getBodyChildrenBlocks(payload.issue.body),
-  });
+    getBodyChildrenBlocks(payload.issue.body)
+  );
 }
 
 interface IssueEditedOptions {
   notion: {
     client: Client;
     databaseId: string;
+    propertyMapping: PropertyMapping;
+    statusMapping: StatusMapping;
+    relations: NotionRelationsConfig;
   };
   payload: IssuesEvent;
+  primaryProject: string | null;
+  report: SyncReport;
 }
 
 async function handleIssueEdited(options: IssueEditedOptions) {
-  const { notion, payload } = options;
+  const { notion, payload, primaryProject, report } = options;
 
-  core.info(`Querying database for task for github issue ${payload.issue.html_url}`);
-
-  const query = await notion.client.databases.query({
-    database_id: notion.databaseId,
-    filter: {
-      property: 'Issue',
-      url: {
-        equals: payload.issue.html_url,
-      },
-    },
-    page_size: 1,
-  });
+  const page = await findPageForIssue(notion, getPayloadIssueKey(payload.issue));
 
   const bodyBlocks = getBodyChildrenBlocks(payload.issue.body);
 
-  if (query.results.length > 0) {
-    const pageId = query.results[0].id;
-
-    core.info(`Query successful: Page ${pageId}`);
+  if (page) {
     core.info(`Updating page for issue #${payload.issue.html_url}`);
 
-    const notionRelations = await getNotionRelations(notion.client);
+    const notionRelations = await getNotionRelations(notion.client, notion.relations);
 
-    await notion.client.pages.update({
-      page_id: pageId,
-      properties: await parsePropertiesFromPayload({
+    await updateChangedProperties(
+      notion,
+      page,
+      await parsePropertiesFromPayload({
         payload,
         userRelations: notionRelations.users,
-        notionProjects: notionRelations.projects
+        notionProjects: notionRelations.projects,
+        propertyMapping: notion.propertyMapping,
+        statusMapping: notion.statusMapping,
+        primaryProject,
+        report,
       }),
-    });
-
-    const existingBlocks = (
-      await notion.client.blocks.children.list({
-        block_id: pageId,
-      })
-    ).results;
-
-    const overlap = Math.min(bodyBlocks.length, existingBlocks.length);
-
-    await Promise.all(
-      bodyBlocks.slice(0, overlap).map((block, index) =>
-        notion.client.blocks.update({
-          block_id: existingBlocks[index].id,
-          ...block,
-        })
-      )
+      payload.issue.html_url,
+      primaryProject
     );
 
-    if (bodyBlocks.length > existingBlocks.length) {
-      await notion.client.blocks.children.append({
-        block_id: pageId,
-        children: bodyBlocks.slice(overlap),
-      });
-    } else if (bodyBlocks.length < existingBlocks.length) {
-      await Promise.all(
-        existingBlocks
-          .slice(overlap)
-          .map(block => notion.client.blocks.delete({ block_id: block.id }))
-      );
-    }
+    const children = await listChildBlocks(notion.client, page.pageId);
+
+    await syncBodyRegion(notion.client, page.pageId, children, bodyBlocks);
   } else {
     core.warning(`Could not find task for github issue ${payload.issue.html_url}, creating a new one`);
 
-    const notionRelations = await getNotionRelations(notion.client);
+    const notionRelations = await getNotionRelations(notion.client, notion.relations);
 
-    await notion.client.pages.create({
-      parent: {
-        database_id: notion.databaseId,
+    await createPageWithBlocks(
+      notion.client,
+      {
+        parent: {
+          database_id: notion.databaseId,
+        },
+        properties: await parsePropertiesFromPayload({
+          payload,
+          userRelations: notionRelations.users,
+          notionProjects: notionRelations.projects,
+          propertyMapping: notion.propertyMapping,
+          statusMapping: notion.statusMapping,
+          primaryProject,
+          report,
+        }),
       },
-      properties: await parsePropertiesFromPayload({
-        payload,
-        userRelations: notionRelations.users,
-        notionProjects: notionRelations.projects
-      }),
-      children: bodyBlocks,
-    });
+      bodyBlocks
+    );
+  }
+}
+
+export async function handleIssueStateChanged(options: IssueEditedOptions) {
+  const { notion, payload, primaryProject, report } = options;
+
+  const page = await findPageForIssue(notion, getPayloadIssueKey(payload.issue));
+  if (!page) {
+    await handleIssueEdited(options);
+    return;
+  }
+
+  core.info(`Updating state of issue ${payload.issue.html_url} to ${payload.issue.state}`);
+
+  const notionRelations = await getNotionRelations(notion.client, notion.relations);
+
+  await updateChangedProperties(
+    notion,
+    page,
+    await parsePropertiesFromPayload({
+      payload,
+      userRelations: notionRelations.users,
+      notionProjects: notionRelations.projects,
+      propertyMapping: notion.propertyMapping,
+      statusMapping: notion.statusMapping,
+      primaryProject,
+      report,
+    }),
+    payload.issue.html_url,
+    primaryProject
+  );
+}
+
+/**
+ * What happens to the page of a deleted issue: `archive` moves it to the Notion trash, `mark`
+ * sets the properties mapped from the issue state to 'deleted' and `ignore` leaves it as is.
+ */
+export type DeletedIssuePolicy = 'archive' | 'mark' | 'ignore';
+
+interface IssueDeletedOptions {
+  notion: FindPageOptions;
+  payload: IssuesDeletedEvent;
+  policy: DeletedIssuePolicy;
+}
+
+export async function handleIssueDeleted(options: IssueDeletedOptions) {
+  const { notion, payload, policy } = options;
+
+  if (policy === 'ignore') {
+    core.info(`Ignoring deletion of issue ${payload.issue.html_url}`);
+    return;
+  }
+
+  const page = await findPageForIssue(notion, getPayloadIssueKey(payload.issue));
+  if (!page) {
+    core.info(`No task found for deleted github issue ${payload.issue.html_url}`);
+    return;
+  }
+
+  if (policy === 'archive') {
+    core.info(`Archiving page ${page.pageId} of deleted issue ${payload.issue.html_url}`);
+    await notion.client.pages.update({ page_id: page.pageId, in_trash: true });
+    return;
+  }
+
+  core.info(`Marking page ${page.pageId} of issue ${payload.issue.html_url} as deleted`);
+  await updateChangedProperties(
+    notion,
+    page,
+    buildProperties(
+      notion.propertyMapping.filter(entry => entry.source === 'state'),
+      { ...getIssueFieldsFromPayload(payload), state: 'deleted' },
+      { userRelations: [], notionProjects: [] }
+    ),
+    payload.issue.html_url
+  );
+}
+
+/**
+ * The payload of `issues.transferred` events, which the webhook schema lacks `changes` for.
+ */
+type IssuesTransferredPayload = IssuesTransferredEvent & {
+  changes: {
+    new_issue: { html_url: string; node_id: string; number: number };
+    new_repository: { name: string; full_name: string };
+  };
+};
+
+interface IssueTransferredOptions {
+  notion: FindPageOptions;
+  payload: IssuesTransferredPayload;
+}
+
+export async function handleIssueTransferred(options: IssueTransferredOptions) {
+  const { notion, payload } = options;
+  const { new_issue, new_repository } = payload.changes;
+
+  const page = await findPageForIssue(notion, getPayloadIssueKey(payload.issue));
+  if (!page) {
+    core.info(`No task found for transferred github issue ${payload.issue.html_url}`);
+    return;
+  }
+
+  core.info(`Moving page ${page.pageId} from ${payload.issue.html_url} to ${new_issue.html_url}`);
+
+  await updateChangedProperties(
+    notion,
+    page,
+    buildProperties(
+      notion.propertyMapping.filter(
+        entry =>
+          entry.source === 'url' ||
+          entry.source === 'repository' ||
+          entry.source === 'number' ||
+          entry.source === 'nodeId'
+      ),
+      {
+        ...getIssueFieldsFromPayload(payload),
+        url: new_issue.html_url,
+        number: new_issue.number,
+        repository: new_repository.name,
+        nodeId: new_issue.node_id,
+      },
+      { userRelations: [], notionProjects: [] }
+    ),
+    new_issue.html_url
+  );
+}
+
+interface IssueCommentOptions {
+  notion: FindPageOptions;
+  payload: IssueCommentEvent;
+}
+
+async function handleIssueComment(options: IssueCommentOptions) {
+  const { notion, payload } = options;
+
+  const pageId = (await findPageForIssue(notion, getPayloadIssueKey(payload.issue)))?.pageId;
+  if (!pageId) {
+    core.warning(`Could not find task for github issue ${payload.issue.html_url}, skipping comment`);
+    return;
+  }
+
+  if (payload.action === 'deleted') {
+    core.info(`Deleting comment ${payload.comment.html_url}`);
+    await deleteCommentBlock(notion.client, pageId, payload.comment.html_url);
+    return;
+  }
+
+  core.info(`Syncing comment ${payload.comment.html_url}`);
+  await upsertCommentBlock(notion.client, pageId, {
+    url: payload.comment.html_url,
+    author: payload.comment.user?.login ?? null,
+    createdAt: payload.comment.created_at,
+    editedAt: payload.comment.updated_at !== payload.comment.created_at ? payload.comment.updated_at : null,
+    body: payload.comment.body,
+  });
+}
+
+interface PullRequestOptions {
+  notion: {
+    client: Client;
+    databaseId: string;
+    propertyMapping: PropertyMapping;
+    statusMapping: StatusMapping;
+    relations: NotionRelationsConfig;
+  };
+  pullRequests: PullRequestSyncConfig;
+  payload: PullRequestEvent;
+  primaryProject: string | null;
+  report: SyncReport;
+}
+
+/**
+ * Creates or updates the page of a pull request. `issueRelation` entries relate it to the pages
+ * of the issues it closes, which are looked up in the issues database.
+ */
+async function handlePullRequest(options: PullRequestOptions) {
+  const { notion, pullRequests, payload, primaryProject, report } = options;
+  const pullRequestNotion = {
+    client: notion.client,
+    databaseId: pullRequests.databaseId,
+    propertyMapping: pullRequests.propertyMapping,
+  };
+
+  const projects = await getIssueProjects({
+    githubRepo: payload.repository.full_name,
+    issueNumber: payload.pull_request.number,
+  });
+  const pullRequest = getPullRequestFields(payload, projects, getProjectFields(projects, primaryProject));
+
+  const notionRelations = await getNotionRelations(notion.client, notion.relations);
+  recordUnmappedAssignees(report, pullRequest.url, pullRequest.assignees, notionRelations.users);
+
+  const issuePages: Record<string, string> = {};
+  if (pullRequests.propertyMapping.some(entry => entry.type === 'issueRelation')) {
+    for (const issueUrl of pullRequest.closesIssues ?? []) {
+      const page = await findPageForIssue(notion, { url: issueUrl, nodeId: null });
+      if (page) issuePages[issueUrl] = page.pageId;
+      else core.info(`No task found for issue ${issueUrl} closed by ${pullRequest.url}`);
+    }
+  }
+
+  const properties = buildProperties(pullRequests.propertyMapping, pullRequest, {
+    userRelations: notionRelations.users,
+    notionProjects: notionRelations.projects,
+    statusMapping: notion.statusMapping,
+    issuePages,
+  });
+  const bodyBlocks = getBodyChildrenBlocks(payload.pull_request.body ?? '');
+
+  const page = await findPageForIssue(pullRequestNotion, getPayloadIssueKey(payload.pull_request));
+  if (!page) {
+    core.info(`Creating task for pull request ${pullRequest.url}`);
+    await createPageWithBlocks(
+      notion.client,
+      {
+        parent: {
+          database_id: pullRequests.databaseId,
+        },
+        properties,
+      },
+      bodyBlocks
+    );
+    return;
+  }
+
+  core.info(`Updating page for pull request ${pullRequest.url} on ${payload.action}`);
+  await updateChangedProperties(
+    pullRequestNotion,
+    page,
+    properties,
+    pullRequest.url,
+    primaryProject
+  );
+
+  if (payload.action === 'edited') {
+    const children = await listChildBlocks(notion.client, page.pageId);
+    await syncBodyRegion(notion.client, page.pageId, children, bodyBlocks);
   }
 }
 
+/**
+ * `sync` mirrors GitHub issues into Notion, `reverse-sync` pushes Notion statuses back to the
+ * GitHub Projects, `project-sync` mirrors the items of an organization or user project and
+ * `dedupe` merges the pages of issues that have several.
+ */
+export type SyncMode = 'sync' | 'reverse-sync' | 'project-sync' | 'dedupe';
+
 interface Options {
+  mode: SyncMode;
+  syncComments: boolean;
+  reconcile: boolean;
+  issueFilters: IssueFilters;
+  deletedIssuePolicy: DeletedIssuePolicy;
+  primaryProject: string | null;
+  pullRequests: PullRequestSyncConfig | null;
+  repositories: RepositorySelector[] | null;
+  project: ProjectSyncConfig | null;
+  dedupe: DedupeConfig;
   notion: {
     token: string;
     databaseId: string;
+    propertyMapping: PropertyMapping;
+    statusMapping: StatusMapping;
+    relations: NotionRelationsConfig;
   };
   github: {
     payload: WebhookPayload;
     eventName: string;
     token: string;
+    // The repository the workflow runs in, as owner/name
+    repository: string;
   };
 }
 
@@ -474,41 +819,190 @@ export async function run(options: Options) {
   const notionClient = new Client({
     auth: notion.token,
     logLevel: core.isDebug() ? LogLevel.DEBUG : LogLevel.WARN,
+    fetch: dryRun.wrap('Notion', notionScheduler.fetch),
+    // Requests may wait in the scheduler queue, which times out each attempt on its own
+    timeoutMs: NOTION_CLIENT_TIMEOUT_MS,
   });
 
+  const report = createReport({ usersLookupEnabled: notion.relations.users !== null });
+
   // console.log(`GitHub event: ${JSON.stringify(github, null, 2)}`);
 
-  if (github.payload.action === 'opened') {
+  if (options.mode === 'reverse-sync') {
+    core.info('Reverse syncing Notion statuses to GitHub');
+
+    await reverseSyncStatuses({
+      notion: {
+        client: notionClient,
+        databaseId: notion.databaseId,
+        propertyMapping: notion.propertyMapping,
+        statusMapping: notion.statusMapping,
+      },
+      primaryProject: options.primaryProject,
+      report,
+    });
+  } else if (options.mode === 'dedupe') {
+    await dedupeDatabase({
+      notion: {
+        client: notionClient,
+        databaseId: notion.databaseId,
+        propertyMapping: notion.propertyMapping,
+      },
+      config: options.dedupe,
+      report,
+    });
+  } else if (options.mode === 'project-sync') {
+    if (!options.project) {
+      throw new Error('The project-sync mode requires the project-number input');
+    }
+
+    await syncProjectWithNotion({
+      notion: {
+        client: notionClient,
+        databaseId: notion.databaseId,
+        propertyMapping: notion.propertyMapping,
+        statusMapping: notion.statusMapping,
+        relations: notion.relations,
+      },
+      project: options.project,
+      pullRequests: options.pullRequests,
+      reconcile: options.reconcile,
+      report,
+    });
+  } else if (github.eventName === 'issue_comment') {
+    if (options.syncComments) {
+      await handleIssueComment({
+        notion: {
+          client: notionClient,
+          databaseId: notion.databaseId,
+          propertyMapping: notion.propertyMapping,
+        },
+        payload: github.payload as IssueCommentEvent,
+      });
+    } else {
+      core.info('Comment sync is disabled, ignoring issue_comment event');
+    }
+  } else if (github.eventName === 'pull_request') {
+    if (options.pullRequests) {
+      await handlePullRequest({
+        notion: {
+          client: notionClient,
+          databaseId: notion.databaseId,
+          propertyMapping: notion.propertyMapping,
+          statusMapping: notion.statusMapping,
+          relations: notion.relations,
+        },
+        pullRequests: options.pullRequests,
+        payload: github.payload as PullRequestEvent,
+        primaryProject: options.primaryProject,
+        report,
+      });
+    } else {
+      core.info('Pull request sync is disabled, ignoring pull_request event');
+    }
+  } else if (github.payload.action === 'opened') {
     await handleIssueOpened({
       notion: {
         client: notionClient,
         databaseId: notion.databaseId,
+        propertyMapping: notion.propertyMapping,
+        statusMapping: notion.statusMapping,
+        relations: notion.relations,
       },
       payload: github.payload as IssuesOpenedEvent,
+      primaryProject: options.primaryProject,
+      report,
     });
-  } else if (github.eventName === 'workflow_dispatch') {
-    core.info('Handling workflow_dispatch event');
-
-    const notion = new Client({ auth: options.notion.token });
-    const { databaseId } = options.notion;
-    const issuePageIds = await createIssueMapping(notion, databaseId);
+  } else if (github.payload.action === 'closed' || github.payload.action === 'reopened') {
+    await handleIssueStateChanged({
+      notion: {
+        client: notionClient,
+        databaseId: notion.databaseId,
+        propertyMapping: notion.propertyMapping,
+        statusMapping: notion.statusMapping,
+        relations: notion.relations,
+      },
+      payload: github.payload as IssuesEvent,
+      primaryProject: options.primaryProject,
+      report,
+    });
+  } else if (github.payload.action === 'deleted') {
+    await handleIssueDeleted({
+      notion: {
+        client: notionClient,
+        databaseId: notion.databaseId,
+        propertyMapping: notion.propertyMapping,
+      },
+      payload: github.payload as IssuesDeletedEvent,
+      policy: options.deletedIssuePolicy,
+    });
+  } else if (github.payload.action === 'transferred') {
+    await handleIssueTransferred({
+      notion: {
+        client: notionClient,
+        databaseId: notion.databaseId,
+        propertyMapping: notion.propertyMapping,
+      },
+      payload: github.payload as IssuesTransferredPayload,
+    });
+  } else if (github.eventName === 'workflow_dispatch' || github.eventName === 'schedule') {
+    core.info(`Handling ${github.eventName} event`);
+
+    const { databaseId, propertyMapping, statusMapping, relations } = options.notion;
+    const issuePages = await createIssueMapping(
+      notionClient,
+      databaseId,
+      getIssueUrlProperty(propertyMapping),
+      getNodeIdProperty(propertyMapping)
+    );
 
-    if (!github.payload.repository?.full_name) {
-      throw new Error('Unable to find repository name in github webhook context');
+    let githubRepos: string[];
+    if (options.repositories) {
+      githubRepos = await resolveRepositories(options.repositories);
+    } else {
+      // Schedule payloads carry no repository
+      githubRepos = [github.payload.repository?.full_name ?? github.repository];
     }
 
-    const githubRepo = github.payload.repository.full_name;
-    await syncNotionDBWithGitHub(issuePageIds, notion, databaseId, githubRepo);
+    // Repositories are synced one after the other, sharing the pages found in the database
+    for (const githubRepo of githubRepos) {
+      await syncNotionDBWithGitHub({
+        notion: {
+          client: notionClient,
+          databaseId,
+          propertyMapping,
+          statusMapping,
+          relations,
+        },
+        githubRepo,
+        issuePages,
+        filters: options.issueFilters,
+        primaryProject: options.primaryProject,
+        syncComments: options.syncComments,
+        reconcile: options.reconcile,
+        report,
+      });
+    }
   } else {
     await handleIssueEdited({
       notion: {
         client: notionClient,
         databaseId: notion.databaseId,
+        propertyMapping: notion.propertyMapping,
+        statusMapping: notion.statusMapping,
+        relations: notion.relations,
       },
-      payload: github.payload as IssuesEvent
+      payload: github.payload as IssuesEvent,
+      primaryProject: options.primaryProject,
+      report,
     });
   }
 
+  recordSchedulerStats(report);
+  recordCacheStats(report);
+  await writeDryRunPlan(report);
+  writeReportOutputs(report);
+
   core.info('Complete!');
 }
 
@@ -524,29 +1018,31 @@ export interface NotionProjectInfo {
 }
 
 /**
- * Retrieves a list of Notion projects from a specified Notion database.
+ * Retrieves a list of Notion projects from the configured Notion database.
  *
  * This function queries the Notion database using the provided Notion client,
  * filters out trashed pages, and extracts project information for pages that
- * have a valid 'Project KEY' property of type 'formula' with a non-empty string value.
+ * have a non-empty project key in the configured property (a string formula,
+ * text, title or select property).
  *
  * @param notionClient - An instance of the Notion API client used to query the database.
+ * @param config - The projects database and the name of its project key property.
  * @returns A promise that resolves to an array of `NotionProjectInfo` objects,
  *          each containing the page ID and the associated project key.
  *
  * @throws Will propagate any errors thrown by the Notion client during the database query.
  */
 export async function getNotionProjects(
-  notionClient: Client
+  notionClient: Client,
+  config: NotionProjectsConfig
 ): Promise<NotionProjectInfo[]> {
-  const databaseId = 'bd9cfdc0d0234340b79a3fea75f48468'; // Replace with your actual database ID
   let hasMore = true;
   let startCursor: string | undefined = undefined;
   const projects: NotionProjectInfo[] = [];
 
   while (hasMore) {
     const response = await notionClient.databases.query({
-      database_id: databaseId,
+      database_id: config.databaseId,
       start_cursor: startCursor,
       page_size: 100,
     });
@@ -557,19 +1053,15 @@ export async function getNotionProjects(
         'in_trash' in result &&
         result.in_trash === false &&
         'properties' in result &&
-        result.properties &&
-        'Project KEY' in result.properties &&
-        result.properties['Project KEY'] &&
-        result.properties['Project KEY'].type === 'formula' &&
-        'formula' in result.properties['Project KEY'] &&
-        result.properties['Project KEY'].formula.type === 'string' &&
-        result.properties['Project KEY'].formula.string &&
-        result.properties['Project KEY'].formula.string.length > 0
+        result.properties
       ) {
-        projects.push({
-          id: result.id,
-          projectKey: result.properties['Project KEY'].formula.string,
-        });
+        const projectKey = getPropertyPlainText(result.properties[config.keyProperty]);
+        if (projectKey) {
+          projects.push({
+            id: result.id,
+            projectKey,
+          });
+        }
       }
     }
 
@@ -69,6 +69,10 @@ export namespace CustomTypes {
       name: StringRequest;
     }
   }
+  export type Checkbox = {
+    checkbox: boolean;
+    type?: 'checkbox';
+  };
 }
 
 export type RichTextItemRequest =
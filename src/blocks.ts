@@ -0,0 +1,599 @@
+import {Client, isFullBlock} from '@notionhq/client/build/src';
+import {
+  BlockObjectRequest,
+  CreatePageParameters,
+  CreatePageResponse,
+  ListBlockChildrenResponse,
+  UpdateBlockParameters,
+} from '@notionhq/client/build/src/api-endpoints';
+import {markdownToBlocks} from '@tryfabric/martian';
+import * as core from '@actions/core';
+import {createHash} from 'crypto';
+import {RichTextItemRequest} from './api-types';
+import {common} from './common';
+
+// https://developers.notion.com/reference/request-limits#limits-for-property-values
+export const BLOCKS_PER_REQUEST_LIMIT = 100;
+// https://developers.notion.com/reference/patch-block-children
+export const NESTED_BLOCKS_PER_REQUEST_LIMIT = 1000;
+const NESTING_LEVELS_PER_REQUEST_LIMIT = 2;
+export const BLOCK_TEXT_CONTENT_CHARACTERS_LIMIT = 2000;
+export const RICH_TEXT_ITEMS_LIMIT = 100;
+
+export type BodyBlock = BlockObjectRequest;
+
+export function removeHTML(text?: string): string {
+  return text?.replace(/<.*>.*<\/.*>/g, '') ?? '';
+}
+
+function splitRichText(items: RichTextItemRequest[]): RichTextItemRequest[] {
+  const result: RichTextItemRequest[] = [];
+
+  for (const item of items) {
+    if (!('text' in item) || item.text.content.length <= BLOCK_TEXT_CONTENT_CHARACTERS_LIMIT) {
+      result.push(item);
+      continue;
+    }
+
+    const {content} = item.text;
+    for (let i = 0; i < content.length; i += BLOCK_TEXT_CONTENT_CHARACTERS_LIMIT) {
+      result.push({
+        ...item,
+        text: {
+          ...item.text,
+          content: content.substring(i, i + BLOCK_TEXT_CONTENT_CHARACTERS_LIMIT),
+        },
+      });
+    }
+  }
+
+  if (result.length > RICH_TEXT_ITEMS_LIMIT) {
+    core.warning(`Truncating a block with ${result.length} rich text items`);
+    return result.slice(0, RICH_TEXT_ITEMS_LIMIT);
+  }
+
+  return result;
+}
+
+/**
+ * Splits every text longer than Notion's content limit into several rich text items, walking
+ * nested children and table cells.
+ */
+function applyTextLimits<T>(value: T): T {
+  if (Array.isArray(value)) return value.map(applyTextLimits) as unknown as T;
+  if (typeof value !== 'object' || value === null) return value;
+
+  const result: Record<string, unknown> = {};
+  for (const [key, child] of Object.entries(value)) {
+    if (key === 'rich_text' && Array.isArray(child)) {
+      result[key] = splitRichText(child);
+    } else if (key === 'cells' && Array.isArray(child)) {
+      result[key] = child.map(cell => splitRichText(cell));
+    } else {
+      result[key] = applyTextLimits(child);
+    }
+  }
+  return result as T;
+}
+
+/**
+ * Converts an issue body from Markdown into Notion blocks: headings, lists, task lists, code,
+ * quotes, images and tables each become their own block.
+ *
+ * The result is not limited to what a Notion request accepts, use `appendBlocks` or
+ * `createPageWithBlocks` to send it.
+ */
+export function getBodyChildrenBlocks(body: string): BodyBlock[] {
+  try {
+    const blocks = markdownToBlocks(removeHTML(body), {
+      notionLimits: {truncate: false},
+    }) as unknown as BodyBlock[];
+
+    // An empty body still gets a block, it anchors where the body is rewritten on edits
+    if (blocks.length === 0) return [{type: 'paragraph', paragraph: {rich_text: []}}];
+
+    return applyTextLimits(blocks);
+  } catch {
+    return [
+      {
+        type: 'paragraph',
+        paragraph: {
+          rich_text: common.richText(removeHTML(body)),
+        },
+      },
+    ];
+  }
+}
+
+/**
+ * Splits blocks into chunks accepted by a single Notion request.
+ */
+export function chunkBlocks<T>(blocks: T[], size = BLOCKS_PER_REQUEST_LIMIT): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < blocks.length; i += size) {
+    chunks.push(blocks.slice(i, i + size));
+  }
+  return chunks;
+}
+
+/**
+ * Nested children left out of a request, appended to their parent once it exists.
+ *
+ * @property path - The index of the parent among the blocks of the request, followed by its
+ *   index among the children of that block when it is nested.
+ */
+export interface DeferredChildren {
+  path: number[];
+  children: BodyBlock[];
+}
+
+function getNestedChildren(block: BodyBlock): BodyBlock[] | undefined {
+  const content = (block as Record<string, unknown>)[block.type as string];
+  if (typeof content !== 'object' || content === null || !('children' in content)) {
+    return undefined;
+  }
+  return (content as {children: BodyBlock[]}).children;
+}
+
+function setNestedChildren(block: BodyBlock, children: BodyBlock[]): BodyBlock {
+  const type = block.type as string;
+  const content = {...(block as unknown as Record<string, Record<string, unknown>>)[type]};
+  if (children.length > 0) content.children = children;
+  else delete content.children;
+  return {...block, [type]: content} as BodyBlock;
+}
+
+/**
+ * Fits at most 100 blocks into a single Notion request, which accepts 2 levels of nesting, 100
+ * children per block and 1000 blocks in all. The children left out are returned with the path
+ * of their parent, to be appended once it exists.
+ */
+export function limitRequestBlocks(blocks: BodyBlock[]): {
+  blocks: BodyBlock[];
+  deferred: DeferredChildren[];
+} {
+  const deferred: DeferredChildren[] = [];
+  let remaining = NESTED_BLOCKS_PER_REQUEST_LIMIT - blocks.length;
+
+  const limit = (block: BodyBlock, path: number[]): BodyBlock => {
+    const children = getNestedChildren(block);
+    if (!children) return block;
+
+    const kept =
+      path.length < NESTING_LEVELS_PER_REQUEST_LIMIT
+        ? children.slice(0, Math.max(Math.min(BLOCKS_PER_REQUEST_LIMIT, remaining), 0))
+        : [];
+    remaining -= kept.length;
+    if (kept.length < children.length) {
+      deferred.push({path, children: children.slice(kept.length)});
+    }
+
+    return setNestedChildren(
+      block,
+      kept.map((child, index) => limit(child, [...path, index]))
+    );
+  };
+
+  return {blocks: blocks.map((block, index) => limit(block, [index])), deferred};
+}
+
+/**
+ * Appends the children left out of a request to their parents.
+ *
+ * @param blockIds - The IDs of the blocks created by the request, in order
+ */
+async function appendDeferredChildren(
+  client: Client,
+  blockIds: string[],
+  deferred: DeferredChildren[]
+) {
+  const nestedBlockIds = new Map<number, string[]>();
+
+  for (const {path, children} of deferred) {
+    const [index, nestedIndex] = path;
+    let parentId: string | undefined = blockIds[index];
+
+    if (parentId && nestedIndex !== undefined) {
+      if (!nestedBlockIds.has(index)) {
+        const nested = await listChildBlocks(client, parentId);
+        nestedBlockIds.set(
+          index,
+          nested.map(block => block.id)
+        );
+      }
+      parentId = nestedBlockIds.get(index)?.[nestedIndex];
+    }
+
+    // Blocks created by a dry run cannot be listed
+    if (!parentId) continue;
+
+    await appendBlocks(client, parentId, children);
+  }
+}
+
+/**
+ * Appends blocks to a page or block, one request per 100 blocks so their order is kept. Nested
+ * children beyond what a request accepts are appended to their parent afterwards.
+ */
+export async function appendBlocks(
+  client: Client,
+  blockId: string,
+  blocks: BodyBlock[],
+  after?: string
+) {
+  for (const chunk of chunkBlocks(blocks)) {
+    const {blocks: children, deferred} = limitRequestBlocks(chunk);
+    const response = await client.blocks.children.append({
+      block_id: blockId,
+      children,
+      after,
+    });
+    await appendDeferredChildren(
+      client,
+      response.results.map(block => block.id),
+      deferred
+    );
+    if (after) after = response.results[response.results.length - 1]?.id ?? after;
+  }
+}
+
+export type ChildBlock = ListBlockChildrenResponse['results'][number];
+
+/**
+ * Lists every child block of a page or block, following the pagination.
+ */
+export async function listChildBlocks(client: Client, blockId: string): Promise<ChildBlock[]> {
+  const blocks: ChildBlock[] = [];
+  let cursor: string | undefined = undefined;
+  let hasMore = true;
+
+  while (hasMore) {
+    const response: ListBlockChildrenResponse = await client.blocks.children.list({
+      block_id: blockId,
+      start_cursor: cursor,
+      page_size: 100,
+    });
+    blocks.push(...response.results);
+
+    hasMore = response.has_more;
+    cursor = response.next_cursor ?? undefined;
+  }
+
+  return blocks;
+}
+
+/**
+ * Rewrites the blocks of an issue body on a page.
+ *
+ * Blocks are updated in place while they can be, everything from the first other block on is
+ * deleted and the new blocks are inserted right after the kept ones, so blocks following the
+ * body (such as synced comments) stay where they are.
+ *
+ * @param client - The Notion API client
+ * @param pageId - The page holding the body
+ * @param existingBlocks - The blocks currently rendering the body, in order
+ * @param bodyBlocks - The new body blocks
+ */
+export async function syncBodyBlocks(
+  client: Client,
+  pageId: string,
+  existingBlocks: ChildBlock[],
+  bodyBlocks: BodyBlock[]
+) {
+  let updatable = Math.min(bodyBlocks.length, existingBlocks.length);
+  const mismatch = bodyBlocks
+    .slice(0, updatable)
+    .findIndex((block, index) => !canUpdateInPlace(existingBlocks[index], block));
+  if (mismatch !== -1) updatable = mismatch;
+
+  await Promise.all(
+    bodyBlocks.slice(0, updatable).map((block, index) =>
+      client.blocks.update({
+        block_id: existingBlocks[index].id,
+        ...block,
+      } as UpdateBlockParameters)
+    )
+  );
+
+  // Notion can only insert after an existing block, so when nothing is kept the new blocks go
+  // after the first stale one, which is deleted with the others.
+  const stale = existingBlocks.slice(updatable);
+  const after = updatable > 0 ? existingBlocks[updatable - 1].id : stale[0]?.id;
+
+  await appendBlocks(client, pageId, bodyBlocks.slice(updatable), after);
+
+  await Promise.all(stale.map(block => client.blocks.delete({block_id: block.id})));
+}
+
+const BODY_START_MARKER = '⬇ Synced from GitHub, edit the issue instead';
+const BODY_END_MARKER = '⬆ End of the synced issue body, notes below are kept';
+const BODY_HASH_PATTERN = / · ([0-9a-f]{12})$/;
+
+/**
+ * Hashes the blocks rendering an issue body, so an unchanged body is not rewritten.
+ */
+export function getBodyHash(bodyBlocks: BodyBlock[]): string {
+  return createHash('sha256').update(JSON.stringify(bodyBlocks)).digest('hex').substring(0, 12);
+}
+
+function getMarkerBlock(text: string): BodyBlock {
+  return {
+    type: 'paragraph',
+    paragraph: {
+      rich_text: [
+        {type: 'text', text: {content: text}, annotations: {color: 'gray', italic: true}},
+      ],
+    },
+  };
+}
+
+function getStartMarkerBlock(bodyBlocks: BodyBlock[]): BodyBlock {
+  return getMarkerBlock(`${BODY_START_MARKER} · ${getBodyHash(bodyBlocks)}`);
+}
+
+function getPlainText(block: ChildBlock): string | null {
+  if (!isFullBlock(block) || block.type !== 'paragraph') return null;
+  return block.paragraph.rich_text.map(item => item.plain_text).join('');
+}
+
+/**
+ * Wraps body blocks in the markers of the region of the page the action manages. The start
+ * marker ends with the hash of the body.
+ */
+export function getBodyRegionBlocks(bodyBlocks: BodyBlock[]): BodyBlock[] {
+  return [getStartMarkerBlock(bodyBlocks), ...bodyBlocks, getMarkerBlock(BODY_END_MARKER)];
+}
+
+/**
+ * Finds the region of a page holding the issue body, between its start and end markers.
+ *
+ * @returns The markers, the blocks between them and the hash of the body they render, `null`
+ *          when the page has no start marker. Without end marker, which a teammate may have
+ *          deleted, the region is empty so that no block of theirs is mistaken for the body.
+ */
+export function findBodyRegion(children: ChildBlock[]): {
+  start: ChildBlock;
+  blocks: ChildBlock[];
+  end: ChildBlock | null;
+  hash: string | null;
+} | null {
+  const start = children.findIndex(block => getPlainText(block)?.startsWith(BODY_START_MARKER));
+  if (start === -1) return null;
+
+  const hash = BODY_HASH_PATTERN.exec(getPlainText(children[start]) ?? '')?.[1] ?? null;
+  const end = children.findIndex(
+    (block, index) => index > start && getPlainText(block) === BODY_END_MARKER
+  );
+  if (end === -1) return {start: children[start], blocks: [], end: null, hash};
+
+  return {start: children[start], blocks: children.slice(start + 1, end), end: children[end], hash};
+}
+
+type RichTextItem = {
+  plain_text?: string;
+  href?: string | null;
+  text?: {content: string; link?: {url: string} | null};
+  equation?: {expression: string};
+  annotations?: Record<string, unknown>;
+};
+
+/**
+ * Reduces rich text, read from Notion or about to be sent, to the text, link and annotations
+ * that differ from the defaults.
+ */
+function normalizeRichText(items: RichTextItem[] | undefined) {
+  return (items ?? []).map(item => [
+    item.text?.content ?? item.equation?.expression ?? item.plain_text ?? '',
+    item.text?.link?.url ?? item.href ?? null,
+    Object.entries(item.annotations ?? {})
+      .filter(([name, value]) => (name === 'color' ? value !== 'default' : value === true))
+      .sort(([a], [b]) => a.localeCompare(b)),
+  ]);
+}
+
+/**
+ * Reduces a block to a comparable form, `null` for blocks with nested children, which cannot be
+ * compared without listing them.
+ */
+function getBlockSignature(type: string, content: Record<string, unknown>): string | null {
+  if ('children' in content) return null;
+
+  return JSON.stringify([
+    type,
+    normalizeRichText(content.rich_text as RichTextItem[] | undefined),
+    normalizeRichText(content.caption as RichTextItem[] | undefined),
+    content.checked ?? null,
+    content.language ?? null,
+    content.expression ?? null,
+    content.url ?? null,
+    (content.external as {url: string} | undefined)?.url ?? null,
+  ]);
+}
+
+function getChildBlockSignature(block: ChildBlock): string | null {
+  if (!isFullBlock(block) || block.has_children) return null;
+  return getBlockSignature(
+    block.type,
+    (block as unknown as Record<string, Record<string, unknown>>)[block.type]
+  );
+}
+
+function getBodyBlockSignature(block: BodyBlock): string | null {
+  const type = block.type as string;
+  return getBlockSignature(
+    type,
+    (block as unknown as Record<string, Record<string, unknown>>)[type]
+  );
+}
+
+/**
+ * The writes turning the blocks of a body into new ones. Blocks are inserted after a kept or
+ * updated block, or after the block preceding the body.
+ */
+export interface BodyBlockChanges {
+  updates: Array<{existing: ChildBlock; block: BodyBlock}>;
+  inserts: Array<{after: string; blocks: BodyBlock[]}>;
+  deletes: ChildBlock[];
+}
+
+/**
+ * Computes the fewest writes turning the blocks of a body into new ones: blocks with the same
+ * content are kept, the longest common sequence of them as it is, and the blocks in between are
+ * updated in place where they can be, otherwise deleted or inserted.
+ *
+ * @param existing - The blocks currently rendering the body, in order
+ * @param blocks - The new body blocks
+ * @param previousBlockId - The block right before the body
+ */
+export function diffBodyBlocks(
+  existing: ChildBlock[],
+  blocks: BodyBlock[],
+  previousBlockId: string
+): BodyBlockChanges {
+  const existingSignatures = existing.map(getChildBlockSignature);
+  const signatures = blocks.map(getBodyBlockSignature);
+  const matches = (i: number, j: number) =>
+    existingSignatures[i] !== null && existingSignatures[i] === signatures[j];
+
+  // lengths[i][j] is the length of the longest common sequence of existing[i..] and blocks[j..]
+  const lengths = Array.from({length: existing.length + 1}, () =>
+    new Array<number>(blocks.length + 1).fill(0)
+  );
+  for (let i = existing.length - 1; i >= 0; i--) {
+    for (let j = blocks.length - 1; j >= 0; j--) {
+      lengths[i][j] = matches(i, j)
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  // Equal blocks are kept, following the longest common sequence
+  const kept: Array<[number, number]> = [];
+  for (let i = 0, j = 0; i < existing.length && j < blocks.length; ) {
+    if (matches(i, j)) kept.push([i++, j++]);
+    else if (lengths[i + 1][j] >= lengths[i][j + 1]) i++;
+    else j++;
+  }
+
+  const changes: BodyBlockChanges = {updates: [], inserts: [], deletes: []};
+  let after = previousBlockId;
+  let i = 0;
+  let j = 0;
+
+  // The blocks between two kept ones are paired up in order while they can be updated
+  for (const [keptI, keptJ] of [...kept, [existing.length, blocks.length]]) {
+    for (; i < keptI && j < keptJ && canUpdateInPlace(existing[i], blocks[j]); i++, j++) {
+      changes.updates.push({existing: existing[i], block: blocks[j]});
+      after = existing[i].id;
+    }
+    if (j < keptJ) changes.inserts.push({after, blocks: blocks.slice(j, keptJ)});
+    changes.deletes.push(...existing.slice(i, keptI));
+
+    if (keptI < existing.length) after = existing[keptI].id;
+    i = keptI + 1;
+    j = keptJ + 1;
+  }
+
+  return changes;
+}
+
+/**
+ * Rewrites the issue body in its region of the page, leaving the blocks outside of it, such as
+ * the notes of teammates, untouched. Nothing is written when the hash of the body did not
+ * change, otherwise only the blocks that changed are.
+ *
+ * @param client - The Notion API client
+ * @param pageId - The page holding the body
+ * @param children - The children of the page
+ * @param bodyBlocks - The new body blocks
+ */
+export async function syncBodyRegion(
+  client: Client,
+  pageId: string,
+  children: ChildBlock[],
+  bodyBlocks: BodyBlock[]
+) {
+  const region = findBodyRegion(children);
+  if (!region) {
+    // Pages created before the region existed hold the body in a single paragraph, their first
+    // block, which is replaced by the region. The blocks after it are notes, and are kept.
+    const legacyBlocks = children.slice(0, 1).filter(block => getPlainText(block) !== null);
+    await syncBodyBlocks(client, pageId, legacyBlocks, getBodyRegionBlocks(bodyBlocks));
+    return;
+  }
+
+  if (region.end && region.hash === getBodyHash(bodyBlocks)) {
+    core.info(`Body of page ${pageId} is unchanged`);
+    return;
+  }
+
+  if (!region.end) {
+    core.warning(`The end of the issue body is not marked on page ${pageId}, rewriting it`);
+  }
+
+  const changes = diffBodyBlocks(
+    region.blocks,
+    region.end ? bodyBlocks : [...bodyBlocks, getMarkerBlock(BODY_END_MARKER)],
+    region.start.id
+  );
+  changes.updates.push({existing: region.start, block: getStartMarkerBlock(bodyBlocks)});
+
+  core.info(
+    `Updating ${changes.updates.length} blocks, inserting ` +
+      `${changes.inserts.reduce((count, insert) => count + insert.blocks.length, 0)} and ` +
+      `deleting ${changes.deletes.length} in the body of page ${pageId}`
+  );
+
+  await Promise.all(
+    changes.updates.map(({existing, block}) =>
+      client.blocks.update({block_id: existing.id, ...block} as UpdateBlockParameters)
+    )
+  );
+  for (const insert of changes.inserts) {
+    await appendBlocks(client, pageId, insert.blocks, insert.after);
+  }
+  await Promise.all(changes.deletes.map(block => client.blocks.delete({block_id: block.id})));
+}
+
+/**
+ * Creates a page with the body blocks in its managed region, appending the blocks that exceed
+ * what the create request accepts.
+ */
+export async function createPageWithBlocks(
+  client: Client,
+  parameters: Omit<CreatePageParameters, 'children'>,
+  bodyBlocks: BodyBlock[]
+): Promise<CreatePageResponse> {
+  const blocks = getBodyRegionBlocks(bodyBlocks);
+  const {blocks: children, deferred} = limitRequestBlocks(
+    blocks.slice(0, BLOCKS_PER_REQUEST_LIMIT)
+  );
+
+  const page = await client.pages.create({...parameters, children} as CreatePageParameters);
+
+  if (deferred.length > 0) {
+    const created = await listChildBlocks(client, page.id);
+    await appendDeferredChildren(
+      client,
+      created.map(block => block.id),
+      deferred
+    );
+  }
+
+  await appendBlocks(client, page.id, blocks.slice(BLOCKS_PER_REQUEST_LIMIT));
+
+  return page;
+}
+
+/**
+ * Whether an existing block can be turned into the given block with `blocks.update`, which
+ * neither changes the block type nor touches nested children.
+ */
+export function canUpdateInPlace(existing: ChildBlock, block: BodyBlock): boolean {
+  if (!('type' in existing) || existing.type !== block.type || existing.has_children) {
+    return false;
+  }
+
+  const content = (block as Record<string, unknown>)[block.type as string];
+  return !(typeof content === 'object' && content !== null && 'children' in content);
+}
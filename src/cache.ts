@@ -0,0 +1,175 @@
+import * as core from '@actions/core';
+import * as fs from 'fs';
+import * as path from 'path';
+import {incrementCount, SyncReport} from './report';
+
+/**
+ * @property path - The file the cache is persisted to between runs, `null` to keep it in memory.
+ * @property ttlSeconds - How long a persisted entry is reused.
+ */
+export interface CacheOptions {
+  path: string | null;
+  ttlSeconds: number;
+}
+
+export interface CacheStats {
+  hits: number;
+  misses: number;
+}
+
+/**
+ * A stored value, with the time it was stored and the version of the source it was read from.
+ */
+interface CacheEntry {
+  storedAt: number;
+  version: string | null;
+  value: unknown;
+}
+
+/**
+ * Returns the version of the source of an entry, such as its last edit time, or `null` when it
+ * has none. An entry of another version is stale, whatever its age.
+ */
+export type VersionLoader = () => Promise<string | null>;
+
+/**
+ * Memoizes data read from Notion and GitHub. Within a run, each key is loaded once. With a
+ * `path`, entries read with `get` are also persisted and reused by the next runs until they are
+ * older than `ttlSeconds` or the version of their source changes. Entries read with `memoize`
+ * are only kept for the run, for data without a version telling when it changes.
+ */
+export interface DataCache {
+  stats: CacheStats;
+  configure(options: Partial<CacheOptions>): void;
+  get<T>(key: string, load: () => Promise<T>, getVersion?: VersionLoader): Promise<T>;
+  memoize<T>(key: string, load: () => Promise<T>): Promise<T>;
+  save(): void;
+}
+
+/**
+ * Whether a persisted entry can be reused: it is younger than the TTL, and was stored for the
+ * current version of its source.
+ */
+export function isFreshEntry(
+  entry: Pick<CacheEntry, 'storedAt' | 'version'>,
+  version: string | null,
+  ttlSeconds: number,
+  now: number
+): boolean {
+  return now - entry.storedAt < ttlSeconds * 1000 && entry.version === version;
+}
+
+function readEntries(file: string): Record<string, CacheEntry> {
+  if (!fs.existsSync(file)) return {};
+
+  try {
+    const entries = JSON.parse(fs.readFileSync(file, 'utf8'));
+    return entries && typeof entries === 'object' ? entries : {};
+  } catch (e) {
+    core.warning(`Ignoring the unreadable cache ${file}: ${e instanceof Error ? e.message : e}`);
+    return {};
+  }
+}
+
+export function createCache(initialOptions: CacheOptions, now = Date.now): DataCache {
+  const options = {...initialOptions};
+  const stats: CacheStats = {hits: 0, misses: 0};
+
+  const loaded = new Map<string, Promise<unknown>>();
+  let entries: Record<string, CacheEntry> | null = null;
+  let changed = false;
+
+  function getEntries() {
+    entries ??= options.path ? readEntries(options.path) : {};
+    return entries;
+  }
+
+  async function loadEntry<T>(key: string, load: () => Promise<T>, getVersion?: VersionLoader) {
+    if (!options.path) {
+      stats.misses++;
+      return load();
+    }
+
+    let version: string | null | undefined;
+    const getCurrentVersion = async () => {
+      if (version === undefined) version = getVersion ? await getVersion() : null;
+      return version;
+    };
+
+    // The version is only fetched for entries young enough to be reused
+    const entry = getEntries()[key];
+    if (entry && isFreshEntry(entry, entry.version, options.ttlSeconds, now())) {
+      if (isFreshEntry(entry, await getCurrentVersion(), options.ttlSeconds, now())) {
+        core.info(`Reusing the cached ${key}`);
+        stats.hits++;
+        return entry.value as T;
+      }
+    }
+
+    stats.misses++;
+    const value = await load();
+    getEntries()[key] = {storedAt: now(), version: await getCurrentVersion(), value};
+    changed = true;
+
+    return value;
+  }
+
+  function remember<T>(key: string, load: () => Promise<T>): Promise<T> {
+    let value = loaded.get(key) as Promise<T> | undefined;
+    if (value) {
+      stats.hits++;
+    } else {
+      value = load();
+      // A failed load is retried by the next caller
+      value.catch(() => loaded.delete(key));
+      loaded.set(key, value);
+    }
+    return value;
+  }
+
+  return {
+    stats,
+    configure(changes) {
+      for (const [key, value] of Object.entries(changes)) {
+        if (value !== undefined) Object.assign(options, {[key]: value});
+      }
+    },
+    get<T>(key: string, load: () => Promise<T>, getVersion?: VersionLoader): Promise<T> {
+      return remember(key, () => loadEntry(key, load, getVersion));
+    },
+    memoize<T>(key: string, load: () => Promise<T>): Promise<T> {
+      return remember(key, () => {
+        stats.misses++;
+        return load();
+      });
+    },
+    save() {
+      if (!options.path || !changed) return;
+
+      const fresh: Record<string, CacheEntry> = {};
+      for (const [key, entry] of Object.entries(getEntries())) {
+        if (isFreshEntry(entry, entry.version, options.ttlSeconds, now())) fresh[key] = entry;
+      }
+
+      fs.mkdirSync(path.dirname(options.path), {recursive: true});
+      fs.writeFileSync(options.path, JSON.stringify(fresh));
+      core.info(`Saved ${Object.keys(fresh).length} cache entries to ${options.path}`);
+      changed = false;
+    },
+  };
+}
+
+export const dataCache = createCache({path: null, ttlSeconds: 3600});
+
+/**
+ * Saves the persisted cache, then logs how many lookups it answered and adds the totals to the
+ * report.
+ */
+export function recordCacheStats(report: SyncReport) {
+  dataCache.save();
+
+  const {hits, misses} = dataCache.stats;
+  core.info(`Cache hits: ${hits}, misses: ${misses}`);
+  incrementCount(report, 'cache-hits', hits);
+  incrementCount(report, 'cache-misses', misses);
+}
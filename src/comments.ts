@@ -0,0 +1,199 @@
+import {Client, isFullBlock} from '@notionhq/client/build/src';
+import * as core from '@actions/core';
+import {graphqlWithAuth} from './action';
+import {appendBlocks, ChildBlock, getBodyChildrenBlocks, listChildBlocks} from './blocks';
+import {common} from './common';
+
+/**
+ * An issue comment, normalized so webhook comments and GraphQL comments look the same.
+ *
+ * @property url - The comment URL, `<issue url>#issuecomment-<id>`, identifying its block.
+ * @property editedAt - When the comment was last edited, `null` if it never was.
+ */
+export interface IssueComment {
+  url: string;
+  author: string | null;
+  createdAt: string;
+  editedAt: string | null;
+  body: string;
+}
+
+const COMMENT_URL_MARKER = '#issuecomment-';
+
+function formatTimestamp(timestamp: string): string {
+  return timestamp.substring(0, 16).replace('T', ' ') + ' UTC';
+}
+
+function getCommentHeaderText(comment: IssueComment): string {
+  const edited = comment.editedAt ? ` (edited ${formatTimestamp(comment.editedAt)})` : '';
+
+  return `💬 ${comment.author ?? 'ghost'} commented on ${formatTimestamp(comment.createdAt)}${edited}`;
+}
+
+/**
+ * Returns the URL of the comment rendered by a block, or `null` when the block is not a comment.
+ */
+export function getCommentUrl(block: ChildBlock): string | null {
+  if (!isFullBlock(block) || block.type !== 'toggle') return null;
+
+  const href = block.toggle.rich_text[0]?.href;
+  return href && href.includes(COMMENT_URL_MARKER) ? href : null;
+}
+
+/**
+ * Splits the children of a page into the blocks of the issue body and the synced comments,
+ * which are always appended after the body.
+ */
+export function splitCommentBlocks(children: ChildBlock[]): {
+  bodyBlocks: ChildBlock[];
+  commentBlocks: ChildBlock[];
+} {
+  const firstComment = children.findIndex(block => getCommentUrl(block) !== null);
+  if (firstComment === -1) return {bodyBlocks: children, commentBlocks: []};
+
+  return {
+    bodyBlocks: children.slice(0, firstComment),
+    commentBlocks: children.slice(firstComment),
+  };
+}
+
+interface UpsertCommentOptions {
+  /** Leave the block alone when its header, and so the comment edit time, did not change. */
+  skipUnchanged?: boolean;
+  /** The children of the page, when they were already listed. */
+  children?: ChildBlock[];
+}
+
+/**
+ * Adds a comment to a page as a toggle block whose header links to the comment, or rewrites the
+ * toggle of a comment that is already on the page.
+ *
+ * @returns Whether the comment was created, updated or left unchanged
+ */
+export async function upsertCommentBlock(
+  client: Client,
+  pageId: string,
+  comment: IssueComment,
+  options: UpsertCommentOptions = {}
+): Promise<'created' | 'updated' | 'unchanged'> {
+  const children = options.children ?? (await listChildBlocks(client, pageId));
+  const existing = children.find(block => getCommentUrl(block) === comment.url);
+  const header = getCommentHeaderText(comment);
+  const richText = common.richText(header, {url: comment.url});
+
+  if (existing && isFullBlock(existing) && existing.type === 'toggle') {
+    const currentHeader = existing.toggle.rich_text.map(text => text.plain_text).join('');
+    if (options.skipUnchanged && currentHeader === header) return 'unchanged';
+
+    await client.blocks.update({
+      block_id: existing.id,
+      toggle: {rich_text: richText},
+    });
+
+    const oldChildren = await listChildBlocks(client, existing.id);
+    await Promise.all(oldChildren.map(block => client.blocks.delete({block_id: block.id})));
+    await appendBlocks(client, existing.id, getBodyChildrenBlocks(comment.body));
+
+    return 'updated';
+  }
+
+  // The toggle is created empty and filled afterwards, so the comment body may use the full
+  // nesting depth Notion accepts in a single request.
+  const response = await client.blocks.children.append({
+    block_id: pageId,
+    children: [{type: 'toggle', toggle: {rich_text: richText}}],
+  });
+  await appendBlocks(client, response.results[0].id, getBodyChildrenBlocks(comment.body));
+
+  return 'created';
+}
+
+/**
+ * Deletes the toggle block of a comment from a page, if there is one.
+ */
+export async function deleteCommentBlock(client: Client, pageId: string, commentUrl: string) {
+  const children = await listChildBlocks(client, pageId);
+  const existing = children.find(block => getCommentUrl(block) === commentUrl);
+
+  if (!existing) {
+    core.info(`No block found for comment ${commentUrl}`);
+    return;
+  }
+
+  await client.blocks.delete({block_id: existing.id});
+}
+
+interface IssueCommentsResponse {
+  repository: {
+    issue: {
+      comments: {
+        pageInfo: {endCursor: string; hasNextPage: boolean};
+        nodes: Array<{
+          url: string;
+          author: {login: string} | null;
+          createdAt: string;
+          lastEditedAt: string | null;
+          body: string;
+        }>;
+      };
+    } | null;
+  };
+}
+
+/**
+ * Fetches every comment of an issue.
+ */
+export async function getGitHubIssueComments(
+  githubRepo: string,
+  issueNumber: number
+): Promise<IssueComment[]> {
+  const [owner, repo] = githubRepo.split('/');
+  const comments: IssueComment[] = [];
+  let hasNextPage = true;
+  let cursor: string | undefined = undefined;
+
+  while (hasNextPage) {
+    const response = (await graphqlWithAuth(
+      `
+      query($owner: String!, $repo: String!, $number: Int!, $cursor: String) {
+        repository(owner: $owner, name: $repo) {
+          issue(number: $number) {
+            comments(first: 100, after: $cursor) {
+              pageInfo {
+                endCursor
+                hasNextPage
+              }
+              nodes {
+                url
+                author { login }
+                createdAt
+                lastEditedAt
+                body
+              }
+            }
+          }
+        }
+      }
+      `,
+      {owner, repo, number: issueNumber, cursor}
+    )) as IssueCommentsResponse;
+
+    const connection = response.repository.issue?.comments;
+    if (!connection) break;
+
+    for (const node of connection.nodes) {
+      comments.push({
+        url: node.url,
+        author: node.author?.login ?? null,
+        createdAt: node.createdAt,
+        editedAt: node.lastEditedAt,
+        body: node.body,
+      });
+    }
+
+    hasNextPage = connection.pageInfo.hasNextPage;
+    cursor = connection.pageInfo.endCursor;
+  }
+
+  return comments;
+}
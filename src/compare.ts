@@ -0,0 +1,172 @@
+import {PageObjectResponse} from '@notionhq/client/build/src/api-endpoints';
+import {RichTextItemRequest} from './api-types';
+import {CustomPropertyValue, CustomValueMap, properties} from './properties';
+
+export type PageProperties = PageObjectResponse['properties'];
+type PageProperty = PageProperties[string];
+
+function requestPlainText(items: RichTextItemRequest[]): string {
+  return items
+    .map(item => {
+      if ('text' in item) return item.text.content;
+      if ('equation' in item) return item.equation.expression;
+      return '';
+    })
+    .join('');
+}
+
+function normalizeDate(date: string | null | undefined): string | null {
+  if (!date) return null;
+  // Date-only values are kept as they are, date-times are compared as instants
+  if (!date.includes('T')) return date;
+  const time = new Date(date).getTime();
+  return isNaN(time) ? date : new Date(time).toISOString();
+}
+
+function sorted(values: string[]): string[] {
+  return [...values].sort();
+}
+
+/**
+ * Reduces a property value sent to Notion to a comparable form.
+ */
+function normalizeRequestValue(value: CustomPropertyValue): unknown {
+  if ('title' in value) return requestPlainText(value.title);
+  if ('rich_text' in value) return requestPlainText(value.rich_text);
+  if ('number' in value) return value.number;
+  if ('date' in value) {
+    return value.date
+      ? [normalizeDate(value.date.start), normalizeDate(value.date.end ?? null)]
+      : null;
+  }
+  if ('select' in value) return value.select?.name ?? null;
+  if ('multi_select' in value) return sorted(value.multi_select.map(option => option.name ?? ''));
+  if ('url' in value) return value.url || null;
+  if ('people' in value) return sorted(value.people.map(person => person.id));
+  if ('relation' in value) return sorted(value.relation.map(relation => relation.id));
+  if ('status' in value) return value.status.name;
+  if ('checkbox' in value) return value.checkbox;
+  return undefined;
+}
+
+/**
+ * Reduces a property value read from Notion to the same form as `normalizeRequestValue`.
+ */
+function normalizeResponseValue(property: PageProperty): unknown {
+  switch (property.type) {
+    case 'title':
+      return property.title.map(text => text.plain_text).join('');
+    case 'rich_text':
+      return property.rich_text.map(text => text.plain_text).join('');
+    case 'number':
+      return property.number;
+    case 'date':
+      return property.date
+        ? [normalizeDate(property.date.start), normalizeDate(property.date.end)]
+        : null;
+    case 'select':
+      return property.select?.name ?? null;
+    case 'multi_select':
+      return sorted(property.multi_select.map(option => option.name));
+    case 'url':
+      return property.url || null;
+    case 'people':
+      return sorted(property.people.map(person => person.id));
+    case 'relation':
+      return sorted(property.relation.map(relation => relation.id));
+    case 'status':
+      return property.status?.name ?? null;
+    case 'checkbox':
+      return property.checkbox;
+    default:
+      return undefined;
+  }
+}
+
+function normalizeId(id: string): string {
+  return id.replace(/-/g, '');
+}
+
+function isEqual(current: PageProperty | undefined, next: CustomPropertyValue): boolean {
+  if (!current) return false;
+
+  let a = normalizeResponseValue(current);
+  let b = normalizeRequestValue(next);
+
+  // Notion returns dashed UUIDs, while IDs read from other responses may not be dashed
+  if (current.type === 'people' || current.type === 'relation') {
+    a = (a as string[]).map(normalizeId);
+    b = (b as string[] | undefined)?.map(normalizeId);
+  }
+
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Returns the properties whose new value differs from what the page currently holds.
+ *
+ * @param current - The properties of the page, as returned by Notion
+ * @param next - The properties built from the issue
+ * @returns The changed properties only, empty when the page is up to date
+ */
+export function getChangedProperties(
+  current: PageProperties,
+  next: CustomValueMap
+): CustomValueMap {
+  const changed: CustomValueMap = {};
+
+  for (const [name, value] of Object.entries(next)) {
+    if (!isEqual(current[name], value)) changed[name] = value;
+  }
+
+  return changed;
+}
+
+/**
+ * Whether a property read from Notion holds no value. Unchecked checkboxes count as empty.
+ */
+export function isEmptyProperty(property: PageProperty): boolean {
+  const value = normalizeResponseValue(property);
+  return (
+    value === null ||
+    value === undefined ||
+    value === '' ||
+    value === false ||
+    (Array.isArray(value) && value.length === 0)
+  );
+}
+
+/**
+ * Turns a property read from Notion into a value that can be written to another page, `null`
+ * for the property types the action does not write, such as formulas and rollups.
+ */
+export function toPropertyValue(property: PageProperty): CustomPropertyValue | null {
+  switch (property.type) {
+    case 'title':
+      return properties.title(property.title.map(text => text.plain_text).join(''));
+    case 'rich_text':
+      return properties.text(property.rich_text.map(text => text.plain_text).join(''));
+    case 'number':
+      return {type: 'number', number: property.number};
+    case 'date':
+      return property.date
+        ? properties.date(property.date.start, property.date.end ?? undefined)
+        : {type: 'date', date: null};
+    case 'select':
+      return {type: 'select', select: property.select ? {name: property.select.name} : null};
+    case 'multi_select':
+      return properties.multiSelect(property.multi_select.map(option => option.name));
+    case 'url':
+      return {type: 'url', url: property.url};
+    case 'people':
+      return {people: property.people.map(person => ({id: person.id, object: 'user'}))};
+    case 'relation':
+      return {type: 'relation', relation: property.relation.map(page => ({id: page.id}))};
+    case 'status':
+      return property.status ? {status: {name: property.status.name}} : null;
+    case 'checkbox':
+      return properties.checkbox(property.checkbox);
+    default:
+      return null;
+  }
+}
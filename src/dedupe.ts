@@ -0,0 +1,343 @@
+import {Client} from '@notionhq/client/build/src';
+import * as core from '@actions/core';
+import {getChangedProperties, isEmptyProperty, PageProperties, toPropertyValue} from './compare';
+import {getIssueUrlProperty, getNodeIdProperty, PropertyMapping} from './mapping';
+import {CustomPropertyValue, CustomValueMap, properties} from './properties';
+import {incrementCount, SyncReport} from './report';
+
+type PageProperty = PageProperties[string];
+
+/**
+ * Which page of an issue is kept when it has several: the `oldest` one, or the `most-edited`
+ * one, edited last.
+ */
+export type CanonicalPagePolicy = 'oldest' | 'most-edited';
+
+/**
+ * Configuration of the `dedupe` mode.
+ *
+ * @property canonical - Which page of each issue is kept.
+ * @property dryRun - Only log what would be merged and archived, without changing any page.
+ */
+export interface DedupeConfig {
+  canonical: CanonicalPagePolicy;
+  dryRun: boolean;
+}
+
+/**
+ * A page of the issues database.
+ */
+export interface DatabasePage {
+  id: string;
+  createdTime: string;
+  lastEditedTime: string;
+  properties: PageProperties;
+}
+
+/**
+ * The pages of one issue: the page kept, and its duplicates, which are merged into it and
+ * archived.
+ *
+ * @property identity - The node ID of the issue, or its URL for pages without node ID.
+ * @property duplicates - The other pages, in the order their values are merged.
+ */
+export interface DuplicateGroup {
+  identity: string;
+  canonical: DatabasePage;
+  duplicates: DatabasePage[];
+}
+
+/**
+ * The changes a dedupe run makes: the properties written to kept pages and to pages relating
+ * to duplicates, then the duplicates archived.
+ */
+export interface DedupePlan {
+  groups: DuplicateGroup[];
+  updates: Array<{pageId: string; properties: CustomValueMap}>;
+}
+
+/**
+ * The properties identifying the issue of a page.
+ *
+ * @property nodeIdProperty - The property holding the issue node ID, `null` when not mapped.
+ */
+export interface PageIdentityProperties {
+  urlProperty: string;
+  nodeIdProperty: string | null;
+}
+
+function readIdentity(property: PageProperty | undefined): string | null {
+  if (property?.type === 'url') return property.url || null;
+  if (property?.type === 'rich_text') {
+    return property.rich_text.map(text => text.plain_text).join('') || null;
+  }
+  return null;
+}
+
+function addToGroup(groups: Map<string, DatabasePage[]>, identity: string, page: DatabasePage) {
+  const group = groups.get(identity);
+  if (group) group.push(page);
+  else groups.set(identity, [page]);
+}
+
+function comparePages(policy: CanonicalPagePolicy) {
+  return (a: DatabasePage, b: DatabasePage) => {
+    const order =
+      policy === 'oldest'
+        ? a.createdTime.localeCompare(b.createdTime)
+        : b.lastEditedTime.localeCompare(a.lastEditedTime);
+    return order || a.id.localeCompare(b.id);
+  };
+}
+
+/**
+ * Groups the pages that belong to the same issue. Pages are grouped by node ID, and pages
+ * without one by URL. A page without node ID joins the pages of the issue having its URL, unless
+ * several issues had that URL, after a transfer or a repository rename.
+ *
+ * @returns The issues having several pages, with the page to keep first
+ */
+export function groupDuplicatePages(
+  pages: DatabasePage[],
+  identity: PageIdentityProperties,
+  policy: CanonicalPagePolicy
+): DuplicateGroup[] {
+  const groups = new Map<string, DatabasePage[]>();
+  const nodeIdsByUrl = new Map<string, Set<string>>();
+  const urlOnlyPages: Array<{page: DatabasePage; url: string}> = [];
+
+  for (const page of pages) {
+    const url = readIdentity(page.properties[identity.urlProperty]);
+    const nodeId = identity.nodeIdProperty
+      ? readIdentity(page.properties[identity.nodeIdProperty])
+      : null;
+
+    if (nodeId) {
+      addToGroup(groups, nodeId, page);
+      if (url) nodeIdsByUrl.set(url, (nodeIdsByUrl.get(url) ?? new Set()).add(nodeId));
+    } else if (url) {
+      urlOnlyPages.push({page, url});
+    }
+  }
+
+  for (const {page, url} of urlOnlyPages) {
+    const nodeIds = [...(nodeIdsByUrl.get(url) ?? [])];
+    addToGroup(groups, nodeIds.length === 1 ? nodeIds[0] : url, page);
+  }
+
+  return [...groups]
+    .filter(([, group]) => group.length > 1)
+    .map(([identity, group]) => {
+      const [canonical, ...duplicates] = [...group].sort(comparePages(policy));
+      return {identity, canonical, duplicates};
+    });
+}
+
+// Notion lists the first 25 pages of relations only, writing them back would drop the others
+function isTruncated(property: PageProperty): boolean {
+  return (property as {has_more?: boolean}).has_more === true;
+}
+
+function unique(values: string[]): string[] {
+  return [...new Set(values)];
+}
+
+/**
+ * Combines the values of a list property across the pages of an issue, `null` for the other
+ * property types.
+ */
+function unionProperty(values: PageProperty[]): CustomPropertyValue | null {
+  if (values.some(isTruncated)) return null;
+
+  switch (values[0].type) {
+    case 'multi_select':
+      return properties.multiSelect(
+        unique(
+          values.flatMap(value =>
+            value.type === 'multi_select' ? value.multi_select.map(option => option.name) : []
+          )
+        )
+      );
+    case 'people':
+      return {
+        people: unique(
+          values.flatMap(value => (value.type === 'people' ? value.people.map(p => p.id) : []))
+        ).map(id => ({id, object: 'user'})),
+      };
+    case 'relation':
+      return {
+        type: 'relation',
+        relation: unique(
+          values.flatMap(value => (value.type === 'relation' ? value.relation.map(r => r.id) : []))
+        ).map(id => ({id})),
+      };
+    default:
+      return null;
+  }
+}
+
+/**
+ * Computes the values the kept page takes from its duplicates: list properties get the values
+ * of every page, and empty properties the value of the first duplicate that has one.
+ */
+function mergeProperties(group: DuplicateGroup): CustomValueMap {
+  const {canonical, duplicates} = group;
+  const merged: CustomValueMap = {};
+
+  for (const [name, property] of Object.entries(canonical.properties)) {
+    const values = duplicates
+      .map(page => page.properties[name])
+      .filter(value => value?.type === property.type);
+
+    const union = unionProperty([property, ...values]);
+    if (union) {
+      merged[name] = union;
+      continue;
+    }
+
+    if (!isEmptyProperty(property)) continue;
+
+    const value = values.find(value => !isEmptyProperty(value));
+    const converted = value ? toPropertyValue(value) : null;
+    if (converted) merged[name] = converted;
+  }
+
+  return merged;
+}
+
+/**
+ * Plans the merge of the duplicate pages of the database: the kept pages take the values of
+ * their duplicates, and relations to duplicates are moved to the kept pages.
+ */
+export function planDedupe(
+  pages: DatabasePage[],
+  identity: PageIdentityProperties,
+  policy: CanonicalPagePolicy
+): DedupePlan {
+  const groups = groupDuplicatePages(pages, identity, policy);
+
+  const replacements = new Map<string, string>();
+  const merged = new Map<string, CustomValueMap>();
+  for (const group of groups) {
+    for (const duplicate of group.duplicates) replacements.set(duplicate.id, group.canonical.id);
+    merged.set(group.canonical.id, mergeProperties(group));
+  }
+
+  const updates: DedupePlan['updates'] = [];
+
+  for (const page of pages) {
+    if (replacements.has(page.id)) continue;
+
+    const next: CustomValueMap = {...merged.get(page.id)};
+    for (const [name, property] of Object.entries(page.properties)) {
+      if (property.type !== 'relation' || isTruncated(property)) continue;
+
+      const value = next[name] ?? toPropertyValue(property);
+      if (!value || !('relation' in value)) continue;
+
+      next[name] = {
+        type: 'relation',
+        relation: unique(value.relation.map(({id}) => replacements.get(id) ?? id)).map(id => ({
+          id,
+        })),
+      };
+    }
+
+    const changed = getChangedProperties(page.properties, next);
+    if (Object.keys(changed).length > 0) updates.push({pageId: page.id, properties: changed});
+  }
+
+  return {groups, updates};
+}
+
+async function getDatabasePages(client: Client, databaseId: string): Promise<DatabasePage[]> {
+  const pages: DatabasePage[] = [];
+  let cursor: string | undefined = undefined;
+  let hasMore = true;
+
+  while (hasMore) {
+    const response = await client.databases.query({
+      database_id: databaseId,
+      start_cursor: cursor,
+      page_size: 100,
+    });
+
+    for (const result of response.results) {
+      if (result.object !== 'page' || !('properties' in result)) continue;
+
+      pages.push({
+        id: result.id,
+        createdTime: result.created_time,
+        lastEditedTime: result.last_edited_time,
+        properties: result.properties,
+      });
+    }
+
+    hasMore = response.has_more;
+    cursor = response.next_cursor ?? undefined;
+  }
+
+  return pages;
+}
+
+export interface DedupeOptions {
+  notion: {
+    client: Client;
+    databaseId: string;
+    propertyMapping: PropertyMapping;
+  };
+  config: DedupeConfig;
+  report: SyncReport;
+}
+
+/**
+ * Merges the pages of issues that have several, created when an event and a bulk sync raced or
+ * when a page was not found by its URL. Each issue keeps one page, which takes the values of the
+ * others before they are archived. Every change is logged, and only logged with `dryRun`.
+ */
+export async function dedupeDatabase(options: DedupeOptions) {
+  const {notion, config, report} = options;
+  const prefix = config.dryRun ? '[dry run] ' : '';
+
+  core.info(`${prefix}Looking for duplicate pages, keeping the ${config.canonical} page`);
+
+  const pages = await getDatabasePages(notion.client, notion.databaseId);
+  const plan = planDedupe(
+    pages,
+    {
+      urlProperty: getIssueUrlProperty(notion.propertyMapping),
+      nodeIdProperty: getNodeIdProperty(notion.propertyMapping),
+    },
+    config.canonical
+  );
+
+  core.info(`${prefix}Found ${plan.groups.length} issues with several pages in ${pages.length}`);
+
+  for (const group of plan.groups) {
+    const duplicateIds = group.duplicates.map(page => page.id).join(', ');
+    core.info(
+      `${prefix}Merging pages ${duplicateIds} of ${group.identity} into ${group.canonical.id}`
+    );
+    incrementCount(report, 'duplicate-issues');
+    incrementCount(report, 'duplicate-pages', group.duplicates.length);
+  }
+
+  for (const update of plan.updates) {
+    core.info(
+      `${prefix}Updating ${Object.keys(update.properties).join(', ')} of page ${update.pageId}`
+    );
+    if (!config.dryRun) {
+      await notion.client.pages.update({page_id: update.pageId, properties: update.properties});
+    }
+  }
+
+  for (const group of plan.groups) {
+    for (const duplicate of group.duplicates) {
+      core.info(`${prefix}Archiving page ${duplicate.id} of ${group.identity}`);
+      if (!config.dryRun) {
+        await notion.client.pages.update({page_id: duplicate.id, in_trash: true});
+        incrementCount(report, 'pages-archived');
+      }
+    }
+  }
+}
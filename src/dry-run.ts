@@ -0,0 +1,361 @@
+import * as core from '@actions/core';
+import * as fs from 'fs';
+import * as path from 'path';
+import {incrementCount, SyncReport} from './report';
+
+export type PlannedApi = 'Notion' | 'GitHub';
+
+export type PlannedChangeKind =
+  | 'create-page'
+  | 'update-page'
+  | 'archive-page'
+  | 'append-blocks'
+  | 'update-block'
+  | 'delete-block'
+  | 'github-mutation'
+  | 'other';
+
+/**
+ * A write a dry run skipped.
+ *
+ * @property target - The page, block or database written to, or the name of the GitHub mutation.
+ * @property summary - What the write would do, written to the job summary.
+ * @property request - The request that was not sent, written to the plan file.
+ */
+export interface PlannedChange {
+  api: PlannedApi;
+  kind: PlannedChangeKind;
+  target: string | null;
+  summary: string;
+  request: {method: string; path: string; body: unknown};
+}
+
+/**
+ * @property enabled - Whether writes are skipped and recorded instead of sent.
+ * @property planPath - The JSON file the planned changes are written to.
+ */
+export interface DryRunOptions {
+  enabled: boolean;
+  planPath: string;
+}
+
+/**
+ * Records the writes of a run instead of sending them. Its `wrap` is placed in front of the
+ * `fetch` of an API client: reads go through, and writes are answered with stand-in responses,
+ * so the run computes every change without making any. Pages and blocks created during a dry
+ * run get `dry-run-` IDs, and reads of them return nothing.
+ */
+export interface DryRun {
+  options: DryRunOptions;
+  changes: PlannedChange[];
+  configure(options: Partial<DryRunOptions>): void;
+  wrap(api: PlannedApi, send: typeof fetch): typeof fetch;
+}
+
+const DRY_RUN_ID_PREFIX = 'dry-run-';
+
+// The Notion endpoints that read with a POST
+const NOTION_READ_PATTERN = /^\/v1\/(databases\/[^/]+\/query|data_sources\/[^/]+\/query|search)$/;
+
+const MUTATION_PATTERN = /^\s*mutation\b/;
+
+type RequestBody = Record<string, unknown>;
+
+function plainText(richText: unknown): string {
+  if (!Array.isArray(richText)) return '';
+  return richText
+    .map(
+      (text: {text?: {content: string}; plain_text?: string}) =>
+        text.text?.content ?? text.plain_text ?? ''
+    )
+    .join('');
+}
+
+function joinValues(values: unknown, key: 'name' | 'id'): string {
+  if (!Array.isArray(values) || values.length === 0) return 'empty';
+  return values.map((value: Record<string, string>) => value[key]).join(', ');
+}
+
+/**
+ * Describes a property value sent to Notion, such as `Done` for a status or `bug, docs` for a
+ * multi select.
+ */
+export function describePropertyValue(value: unknown): string {
+  if (!value || typeof value !== 'object') return String(value);
+
+  const property = value as Record<string, unknown>;
+  const type = String(property.type ?? Object.keys(property).find(key => key !== 'type'));
+  const content = property[type];
+
+  if (content === null || content === undefined) return 'empty';
+
+  switch (type) {
+    case 'title':
+    case 'rich_text':
+      return plainText(content);
+    case 'select':
+    case 'status':
+      return (content as {name: string}).name;
+    case 'multi_select':
+      return joinValues(content, 'name');
+    case 'people':
+    case 'relation':
+      return joinValues(content, 'id');
+    case 'date': {
+      const date = content as {start: string; end?: string | null};
+      return date.end ? `${date.start} to ${date.end}` : date.start;
+    }
+    default:
+      return String(content);
+  }
+}
+
+function describeProperties(properties: unknown): string {
+  return Object.entries((properties ?? {}) as RequestBody)
+    .map(([name, value]) => `${name} to ${describePropertyValue(value)}`)
+    .join('; ');
+}
+
+function getPageTitle(properties: unknown): string | null {
+  for (const value of Object.values((properties ?? {}) as RequestBody)) {
+    const property = value as {title?: unknown};
+    if (property?.title) return plainText(property.title);
+  }
+  return null;
+}
+
+function planNotionRequest(method: string, pathname: string, body: RequestBody) {
+  const page = /^\/v1\/pages\/([^/]+)$/.exec(pathname)?.[1];
+  const block = /^\/v1\/blocks\/([^/]+)$/.exec(pathname)?.[1];
+  const children = /^\/v1\/blocks\/([^/]+)\/children$/.exec(pathname)?.[1];
+
+  if (method === 'POST' && pathname === '/v1/pages') {
+    const parent = body.parent as Record<string, string> | undefined;
+    const target = parent?.database_id ?? parent?.page_id ?? null;
+    const title = getPageTitle(body.properties);
+    const blocks = Array.isArray(body.children) ? body.children.length : 0;
+    return {
+      kind: 'create-page' as const,
+      target,
+      summary:
+        `Create page ${title ? `"${title}" ` : ''}in ${target} with ${blocks} blocks, ` +
+        `setting ${describeProperties(body.properties) || 'no properties'}`,
+    };
+  }
+  if (method === 'PATCH' && page) {
+    if (body.in_trash === true || body.archived === true) {
+      return {kind: 'archive-page' as const, target: page, summary: `Archive page ${page}`};
+    }
+    return {
+      kind: 'update-page' as const,
+      target: page,
+      summary: `Update page ${page}, setting ${describeProperties(body.properties)}`,
+    };
+  }
+  if (method === 'PATCH' && children) {
+    const count = Array.isArray(body.children) ? body.children.length : 0;
+    const position = body.after ? ` after block ${body.after}` : '';
+    return {
+      kind: 'append-blocks' as const,
+      target: children,
+      summary: `Append ${count} blocks to ${children}${position}`,
+    };
+  }
+  if (method === 'PATCH' && block) {
+    return {kind: 'update-block' as const, target: block, summary: `Update block ${block}`};
+  }
+  if (method === 'DELETE' && block) {
+    return {kind: 'delete-block' as const, target: block, summary: `Delete block ${block}`};
+  }
+  return {kind: 'other' as const, target: null, summary: `Send ${method} ${pathname} to Notion`};
+}
+
+function planGitHubRequest(method: string, pathname: string, body: RequestBody) {
+  const mutation =
+    typeof body.query === 'string' && MUTATION_PATTERN.test(body.query)
+      ? (/{\s*(\w+)/.exec(body.query)?.[1] ?? 'mutation')
+      : null;
+  if (!mutation)
+    return {kind: 'other' as const, target: null, summary: `Send ${method} ${pathname} to GitHub`};
+
+  const variables = Object.entries((body.variables ?? {}) as RequestBody)
+    .map(([name, value]) => `${name} ${value}`)
+    .join(', ');
+  return {
+    kind: 'github-mutation' as const,
+    target: mutation,
+    summary: `Run the GitHub ${mutation} mutation with ${variables || 'no variables'}`,
+  };
+}
+
+/**
+ * Tells whether a request writes, and what it would change.
+ *
+ * @param body - The parsed JSON body of the request, `null` when it has none
+ * @returns The planned change, `null` for requests that only read
+ */
+export function planRequest(
+  api: PlannedApi,
+  method: string,
+  url: string,
+  body: RequestBody | null
+): PlannedChange | null {
+  const pathname = url.replace(/^\w+:\/\/[^/]+/, '').split('?')[0];
+  method = method.toUpperCase();
+
+  if (method === 'GET' || method === 'HEAD') return null;
+  if (api === 'Notion' && method === 'POST' && NOTION_READ_PATTERN.test(pathname)) return null;
+  if (
+    api === 'GitHub' &&
+    pathname.endsWith('/graphql') &&
+    !MUTATION_PATTERN.test(`${body?.query}`)
+  ) {
+    return null;
+  }
+
+  const change =
+    api === 'Notion'
+      ? planNotionRequest(method, pathname, body ?? {})
+      : planGitHubRequest(method, pathname, body ?? {});
+
+  return {api, ...change, request: {method, path: pathname, body}};
+}
+
+function getRequestUrl(input: Parameters<typeof fetch>[0]): string {
+  if (typeof input === 'string') return input;
+  return 'href' in input ? input.href : input.url;
+}
+
+function parseBody(body: RequestInit['body']): RequestBody | null {
+  if (typeof body !== 'string') return null;
+  try {
+    return JSON.parse(body);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Tells whether a request only reads, which includes the Notion queries and GitHub GraphQL
+ * queries sent with a POST.
+ */
+export function isReadRequest(
+  api: PlannedApi,
+  input: Parameters<typeof fetch>[0],
+  init?: RequestInit
+): boolean {
+  return (
+    planRequest(api, init?.method ?? 'GET', getRequestUrl(input), parseBody(init?.body)) === null
+  );
+}
+
+function jsonResponse(body: unknown): Response {
+  return new Response(JSON.stringify(body), {
+    status: 200,
+    headers: {'content-type': 'application/json'},
+  });
+}
+
+const EMPTY_LIST = {object: 'list', results: [], has_more: false, next_cursor: null};
+
+export function createDryRun(initialOptions: DryRunOptions): DryRun {
+  const options = {...initialOptions};
+  const changes: PlannedChange[] = [];
+  let lastId = 0;
+
+  const nextId = () => `${DRY_RUN_ID_PREFIX}${++lastId}`;
+
+  // Stands in for the response of a skipped write, with what the callers read from it
+  function getResponse(change: PlannedChange, body: RequestBody | null): unknown {
+    switch (change.kind) {
+      case 'create-page':
+        return {object: 'page', id: nextId(), properties: {}};
+      case 'update-page':
+      case 'archive-page':
+        return {object: 'page', id: change.target, properties: {}};
+      case 'append-blocks':
+        return {
+          ...EMPTY_LIST,
+          results: (Array.isArray(body?.children) ? body.children : []).map(() => ({
+            object: 'block',
+            id: nextId(),
+          })),
+        };
+      case 'update-block':
+      case 'delete-block':
+        return {object: 'block', id: change.target};
+      case 'github-mutation':
+        return {data: {}};
+      default:
+        return {};
+    }
+  }
+
+  return {
+    options,
+    changes,
+    configure(changes) {
+      for (const [key, value] of Object.entries(changes)) {
+        if (value !== undefined) Object.assign(options, {[key]: value});
+      }
+    },
+    wrap(api, send) {
+      return async (input, init) => {
+        if (!options.enabled) return send(input, init);
+
+        const url = getRequestUrl(input);
+        const body = parseBody(init?.body);
+        const change = planRequest(api, init?.method ?? 'GET', url, body);
+
+        if (!change) {
+          // Pages and blocks created by this dry run do not exist
+          return url.includes(DRY_RUN_ID_PREFIX) ? jsonResponse(EMPTY_LIST) : send(input, init);
+        }
+
+        core.info(`[dry run] ${change.summary}`);
+        changes.push(change);
+        return jsonResponse(getResponse(change, body));
+      };
+    },
+  };
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+export const dryRun = createDryRun({enabled: false, planPath: 'notion-sync-plan.json'});
+
+/**
+ * Writes the changes a dry run skipped to the job summary and to the plan file, and adds their
+ * count to the report. Does nothing outside dry runs.
+ */
+export async function writeDryRunPlan(report: SyncReport) {
+  if (!dryRun.options.enabled) return;
+
+  const {changes, options} = dryRun;
+  incrementCount(report, 'planned-changes', changes.length);
+
+  fs.mkdirSync(path.dirname(path.resolve(options.planPath)), {recursive: true});
+  fs.writeFileSync(
+    options.planPath,
+    JSON.stringify({generatedAt: new Date().toISOString(), changes}, null, 2)
+  );
+  core.setOutput('plan-file', options.planPath);
+  core.info(`Dry run planned ${changes.length} changes, written to ${options.planPath}`);
+
+  // The job summary is only available within a workflow run
+  if (!process.env.GITHUB_STEP_SUMMARY) return;
+
+  await core.summary
+    .addHeading(`Dry run: ${changes.length} planned changes`)
+    .addTable([
+      [
+        {data: 'API', header: true},
+        {data: 'Change', header: true},
+        {data: 'Details', header: true},
+      ],
+      ...changes.map(change => [change.api, change.kind, escapeHtml(change.summary)]),
+    ])
+    .write();
+}
@@ -1,31 +1,263 @@
 import * as core from '@actions/core';
 import * as github from '@actions/github';
-import {run} from './action';
+import {DeletedIssuePolicy, NotionRelationsConfig, run, SyncMode} from './action';
+import {loadPropertyMapping, loadStatusMapping, PropertyMapping} from './mapping';
+import {DEFAULT_ISSUE_FILTERS, IssueFilters} from './sync';
+import {githubScheduler, notionScheduler} from './scheduler';
+import {dataCache} from './cache';
+import {dryRun} from './dry-run';
+import {PullRequestSyncConfig} from './pull-requests';
+import {parseRepositorySelectors} from './repositories';
+import {ProjectSyncConfig} from './project-sync';
+import {CanonicalPagePolicy, DedupeConfig} from './dedupe';
 
 const INPUTS = {
+  MODE: 'mode',
+  SYNC_COMMENTS: 'sync-comments',
+  RECONCILE: 'reconcile',
+  REPOSITORIES: 'repositories',
+  PROJECT_OWNER: 'project-owner',
+  PROJECT_NUMBER: 'project-number',
+  PRIMARY_PROJECT: 'primary-project',
+  STATUS_MAPPING: 'status-mapping',
+  STATUS_DEFAULT: 'status-default',
+  STATUS_FALLBACK: 'status-fallback',
+  NOTION_REQUESTS_PER_SECOND: 'notion-requests-per-second',
+  GITHUB_REQUESTS_PER_SECOND: 'github-requests-per-second',
+  CACHE_PATH: 'cache-path',
+  CACHE_TTL: 'cache-ttl',
+  ISSUE_STATE: 'issue-state',
+  ISSUE_LABELS: 'issue-labels',
+  ISSUE_MILESTONE: 'issue-milestone',
+  ISSUE_ASSIGNEE: 'issue-assignee',
+  ISSUES_CREATED_SINCE: 'issues-created-since',
+  ISSUES_UPDATED_SINCE: 'issues-updated-since',
+  DELETED_ISSUE_POLICY: 'deleted-issue-policy',
+  DEDUPE_CANONICAL: 'dedupe-canonical',
+  DEDUPE_DRY_RUN: 'dedupe-dry-run',
+  DRY_RUN: 'dry-run',
+  DRY_RUN_PLAN: 'dry-run-plan',
   NOTION_TOKEN: 'notion-token',
   NOTION_DB: 'notion-db',
   GITHUB_TOKEN: 'github-token',
+  PROPERTY_MAPPING: 'property-mapping',
+  PROPERTY_MAPPING_FILE: 'property-mapping-file',
+  SYNC_PULL_REQUESTS: 'sync-pull-requests',
+  PULL_REQUEST_DB: 'pull-request-db',
+  PULL_REQUEST_PROPERTY_MAPPING: 'pull-request-property-mapping',
+  PULL_REQUEST_PROPERTY_MAPPING_FILE: 'pull-request-property-mapping-file',
+  NOTION_USERS_ENABLED: 'notion-users-enabled',
+  NOTION_USERS_DB: 'notion-users-db',
+  NOTION_USERS_GITHUB_PROPERTY: 'notion-users-github-property',
+  NOTION_USERS_PERSON_PROPERTY: 'notion-users-person-property',
+  NOTION_PROJECTS_ENABLED: 'notion-projects-enabled',
+  NOTION_PROJECTS_DB: 'notion-projects-db',
+  NOTION_PROJECTS_KEY_PROPERTY: 'notion-projects-key-property',
 };
 
+const MODES: SyncMode[] = ['sync', 'reverse-sync', 'project-sync', 'dedupe'];
+
+function getMode(): SyncMode {
+  const mode = core.getInput(INPUTS.MODE) || 'sync';
+  if (!MODES.includes(mode as SyncMode)) {
+    throw new Error(`Invalid mode "${mode}", expected one of ${MODES.join(', ')}`);
+  }
+  return mode as SyncMode;
+}
+
+const DELETED_ISSUE_POLICIES: DeletedIssuePolicy[] = ['archive', 'mark', 'ignore'];
+
+function getDeletedIssuePolicy(propertyMapping: PropertyMapping): DeletedIssuePolicy {
+  const policy = core.getInput(INPUTS.DELETED_ISSUE_POLICY) || 'archive';
+  if (!DELETED_ISSUE_POLICIES.includes(policy as DeletedIssuePolicy)) {
+    throw new Error(
+      `Invalid deleted-issue-policy "${policy}", expected one of ${DELETED_ISSUE_POLICIES.join(', ')}`
+    );
+  }
+  if (policy === 'mark' && !propertyMapping.some(entry => entry.source === 'state')) {
+    throw new Error(
+      'deleted-issue-policy "mark" requires a property mapping entry with source "state"'
+    );
+  }
+  return policy as DeletedIssuePolicy;
+}
+
+const CANONICAL_PAGE_POLICIES: CanonicalPagePolicy[] = ['oldest', 'most-edited'];
+
+function getDedupeConfig(): DedupeConfig {
+  const canonical = core.getInput(INPUTS.DEDUPE_CANONICAL) || 'oldest';
+  if (!CANONICAL_PAGE_POLICIES.includes(canonical as CanonicalPagePolicy)) {
+    throw new Error(
+      `Invalid dedupe-canonical "${canonical}", expected one of ${CANONICAL_PAGE_POLICIES.join(', ')}`
+    );
+  }
+
+  return {
+    canonical: canonical as CanonicalPagePolicy,
+    dryRun: core.getBooleanInput(INPUTS.DEDUPE_DRY_RUN) || dryRun.options.enabled,
+  };
+}
+
+const ISSUE_STATES: IssueFilters['state'][] = ['open', 'closed', 'all'];
+
+function getDateInput(name: string): Date | null {
+  const value = core.getInput(name);
+  if (!value) return null;
+
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new Error(`Invalid ${name} "${value}", expected an ISO 8601 date`);
+  }
+  return date;
+}
+
+function getRateInput(name: string): number | undefined {
+  const value = core.getInput(name);
+  if (!value) return undefined;
+
+  const rate = Number(value);
+  if (!(rate > 0)) {
+    throw new Error(`Invalid ${name} "${value}", expected a positive number`);
+  }
+  return rate;
+}
+
+function getTtlInput(name: string): number | undefined {
+  const value = core.getInput(name);
+  if (!value) return undefined;
+
+  const seconds = Number(value);
+  if (!Number.isInteger(seconds) || seconds < 0) {
+    throw new Error(`Invalid ${name} "${value}", expected a number of seconds`);
+  }
+  return seconds;
+}
+
+function getIssueFilters(): IssueFilters {
+  const state = core.getInput(INPUTS.ISSUE_STATE) || DEFAULT_ISSUE_FILTERS.state;
+  if (!ISSUE_STATES.includes(state as IssueFilters['state'])) {
+    throw new Error(`Invalid issue-state "${state}", expected one of ${ISSUE_STATES.join(', ')}`);
+  }
+
+  return {
+    state: state as IssueFilters['state'],
+    labels: core
+      .getInput(INPUTS.ISSUE_LABELS)
+      .split(',')
+      .map(label => label.trim())
+      .filter(label => label),
+    milestone: core.getInput(INPUTS.ISSUE_MILESTONE) || null,
+    assignee: core.getInput(INPUTS.ISSUE_ASSIGNEE) || null,
+    createdSince: getDateInput(INPUTS.ISSUES_CREATED_SINCE),
+    updatedSince: getDateInput(INPUTS.ISSUES_UPDATED_SINCE),
+  };
+}
+
+function getRelationsConfig(): NotionRelationsConfig {
+  return {
+    users: core.getBooleanInput(INPUTS.NOTION_USERS_ENABLED)
+      ? {
+          databaseId: core.getInput(INPUTS.NOTION_USERS_DB, {required: true}),
+          githubProperty: core.getInput(INPUTS.NOTION_USERS_GITHUB_PROPERTY, {required: true}),
+          personProperty: core.getInput(INPUTS.NOTION_USERS_PERSON_PROPERTY, {required: true}),
+        }
+      : null,
+    projects: core.getBooleanInput(INPUTS.NOTION_PROJECTS_ENABLED)
+      ? {
+          databaseId: core.getInput(INPUTS.NOTION_PROJECTS_DB, {required: true}),
+          keyProperty: core.getInput(INPUTS.NOTION_PROJECTS_KEY_PROPERTY, {required: true}),
+        }
+      : null,
+  };
+}
+
+function getPullRequestConfig(
+  notionDb: string,
+  propertyMapping: PropertyMapping
+): PullRequestSyncConfig | null {
+  if (!core.getBooleanInput(INPUTS.SYNC_PULL_REQUESTS)) return null;
+
+  const json = core.getInput(INPUTS.PULL_REQUEST_PROPERTY_MAPPING);
+  const file = core.getInput(INPUTS.PULL_REQUEST_PROPERTY_MAPPING_FILE);
+
+  return {
+    databaseId: core.getInput(INPUTS.PULL_REQUEST_DB) || notionDb,
+    // Pull requests share the issue property mapping unless they have their own
+    propertyMapping: json || file ? loadPropertyMapping({json, file}) : propertyMapping,
+  };
+}
+
+function getProjectSyncConfig(): ProjectSyncConfig | null {
+  const number = core.getInput(INPUTS.PROJECT_NUMBER);
+  if (!number) return null;
+
+  if (!/^\d+$/.test(number)) {
+    throw new Error(`Invalid ${INPUTS.PROJECT_NUMBER} "${number}", expected a project number`);
+  }
+
+  return {
+    owner: core.getInput(INPUTS.PROJECT_OWNER) || github.context.repo.owner,
+    number: Number(number),
+  };
+}
+
 async function start() {
   try {
     const notionToken = core.getInput(INPUTS.NOTION_TOKEN, {required: true});
     const notionDb = core.getInput(INPUTS.NOTION_DB, {required: true});
     const githubToken = core.getInput(INPUTS.GITHUB_TOKEN, {required: true});
+    const propertyMapping = loadPropertyMapping({
+      json: core.getInput(INPUTS.PROPERTY_MAPPING),
+      file: core.getInput(INPUTS.PROPERTY_MAPPING_FILE),
+    });
+    const statusMapping = loadStatusMapping({
+      json: core.getInput(INPUTS.STATUS_MAPPING),
+      defaultStatus: core.getInput(INPUTS.STATUS_DEFAULT),
+      fallback: core.getInput(INPUTS.STATUS_FALLBACK),
+    });
+    const relations = getRelationsConfig();
+
+    notionScheduler.configure({
+      requestsPerSecond: getRateInput(INPUTS.NOTION_REQUESTS_PER_SECOND),
+    });
+    githubScheduler.configure({
+      requestsPerSecond: getRateInput(INPUTS.GITHUB_REQUESTS_PER_SECOND),
+    });
+    dryRun.configure({
+      enabled: core.getBooleanInput(INPUTS.DRY_RUN),
+      planPath: core.getInput(INPUTS.DRY_RUN_PLAN) || undefined,
+    });
+    dataCache.configure({
+      path: core.getInput(INPUTS.CACHE_PATH) || null,
+      ttlSeconds: getTtlInput(INPUTS.CACHE_TTL),
+    });
 
     core.info(`context event: ${github.context.eventName}`);
     core.info(`context action: ${github.context.action}`);
     core.info(`payload action: ${github.context.payload.action}`);
     const options = {
+      mode: getMode(),
+      syncComments: core.getBooleanInput(INPUTS.SYNC_COMMENTS),
+      reconcile: core.getBooleanInput(INPUTS.RECONCILE),
+      issueFilters: getIssueFilters(),
+      deletedIssuePolicy: getDeletedIssuePolicy(propertyMapping),
+      primaryProject: core.getInput(INPUTS.PRIMARY_PROJECT) || null,
+      pullRequests: getPullRequestConfig(notionDb, propertyMapping),
+      repositories: parseRepositorySelectors(core.getInput(INPUTS.REPOSITORIES)),
+      project: getProjectSyncConfig(),
+      dedupe: getDedupeConfig(),
       notion: {
         token: notionToken,
         databaseId: notionDb,
+        propertyMapping,
+        statusMapping,
+        relations,
       },
       github: {
         payload: github.context.payload,
         eventName: github.context.eventName,
         token: githubToken,
+        repository: `${github.context.repo.owner}/${github.context.repo.repo}`,
       },
     };
 
@@ -0,0 +1,503 @@
+import * as fs from 'fs';
+import {NotionProjectInfo, userRelationGithubNotionType} from './action';
+import * as core from '@actions/core';
+import {
+  CustomPropertyValue,
+  CustomValueMap,
+  DEFAULT_STATUS_MAPPING,
+  properties,
+  StatusFallback,
+  StatusMapping,
+} from './properties';
+
+/**
+ * The value of an iteration field of a GitHub Project, with its inclusive date range.
+ */
+export interface ProjectIteration {
+  title: string;
+  startDate: string;
+  endDate: string;
+}
+
+/**
+ * The value of a GitHub Project field. Label, user and pull request fields hold lists, milestone
+ * and repository fields their name.
+ */
+export type ProjectFieldValue = string | number | string[] | ProjectIteration | null;
+
+/**
+ * GitHub issue fields available to the property mapping, normalized so the event payload
+ * and the GraphQL issues used by workflow_dispatch look the same.
+ *
+ * Pull requests fill the optional fields too, which stay empty for issues. `closesIssues` holds
+ * the URLs of the issues a pull request closes. `nodeId` is the GitHub node ID of the issue,
+ * which unlike its URL survives transfers and repository renames. `projectItemId` is the node ID
+ * of the item of the issue in the project synced by the `project-sync` mode. Optional fields that
+ * are not set leave their properties unchanged.
+ */
+export interface IssueFields {
+  title: string;
+  number: number;
+  state: 'open' | 'closed' | 'deleted';
+  url: string;
+  repository: string;
+  assignees: string[];
+  labels: string[];
+  milestone: string | null;
+  author: string | null;
+  createdAt: string;
+  updatedAt: string;
+  closedAt: string | null;
+  projects: string[];
+  projectFields: Record<string, ProjectFieldValue>;
+  draft?: boolean;
+  merged?: boolean;
+  mergedAt?: string | null;
+  reviewers?: string[];
+  headBranch?: string;
+  baseBranch?: string;
+  closesIssues?: string[];
+  nodeId?: string;
+  projectItemId?: string;
+}
+
+/**
+ * The fields of a draft issue of a GitHub Project, which has no number, URL or repository, and
+ * whose node ID changes when it is converted into an issue.
+ */
+export type DraftIssueFields = Omit<IssueFields, 'number' | 'url' | 'repository' | 'nodeId'>;
+
+export type IssueFieldSource = Exclude<keyof IssueFields, 'projectFields'>;
+
+const ISSUE_FIELD_SOURCES: IssueFieldSource[] = [
+  'title',
+  'number',
+  'state',
+  'url',
+  'repository',
+  'assignees',
+  'labels',
+  'milestone',
+  'author',
+  'createdAt',
+  'updatedAt',
+  'closedAt',
+  'projects',
+  'draft',
+  'merged',
+  'mergedAt',
+  'reviewers',
+  'headBranch',
+  'baseBranch',
+  'closesIssues',
+  'nodeId',
+  'projectItemId',
+];
+
+/** Prefix of sources reading a ProjectV2 field, e.g. `project.Status`. */
+export const PROJECT_FIELD_SOURCE_PREFIX = 'project.';
+
+/** Names of the `properties.*` converters a mapping entry can use. */
+export type PropertyConverter =
+  | 'title'
+  | 'text'
+  | 'number'
+  | 'date'
+  | 'select'
+  | 'multiSelect'
+  | 'url'
+  | 'person'
+  | 'relation'
+  | 'status'
+  | 'state'
+  | 'checkbox'
+  | 'issueRelation';
+
+const PROPERTY_CONVERTERS: PropertyConverter[] = [
+  'title',
+  'text',
+  'number',
+  'date',
+  'select',
+  'multiSelect',
+  'url',
+  'person',
+  'relation',
+  'status',
+  'state',
+  'checkbox',
+  'issueRelation',
+];
+
+/**
+ * Describes how a single Notion property is filled.
+ *
+ * @property property - The name of the Notion database property.
+ * @property type - The `properties.*` converter used to build the property value.
+ * @property source - The issue field (or `project.<field name>`) the value is read from.
+ * @property value - A constant value, used instead of `source`.
+ */
+export interface PropertyMappingEntry {
+  property: string;
+  type: PropertyConverter;
+  source?: string;
+  value?: string;
+}
+
+export type PropertyMapping = PropertyMappingEntry[];
+
+/** The mapping used when neither `property-mapping` nor `property-mapping-file` is set. */
+export const DEFAULT_PROPERTY_MAPPING: PropertyMapping = [
+  {property: 'Name', type: 'title', source: 'title'},
+  {property: 'Status', type: 'status', source: 'project.Status'},
+  {property: 'Repository', type: 'text', source: 'repository'},
+  {property: 'Assignee', type: 'person', source: 'assignees'},
+  {property: 'Labels', type: 'multiSelect', source: 'labels'},
+  {property: 'Issue', type: 'url', source: 'url'},
+  {property: 'Project', type: 'relation', source: 'project.Project KEY'},
+  {property: 'Task group', type: 'text', value: 'Development'},
+];
+
+/**
+ * @property statusMapping - Translates `status` entries, defaults to `DEFAULT_STATUS_MAPPING`.
+ * @property issuePages - Notion page IDs keyed by issue URL, used by `issueRelation` entries.
+ */
+export interface PropertyContext {
+  userRelations: userRelationGithubNotionType[];
+  notionProjects: NotionProjectInfo[];
+  statusMapping?: StatusMapping;
+  issuePages?: Record<string, string>;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function validateEntry(entry: unknown, index: number): PropertyMappingEntry {
+  const where = `entry #${index + 1}`;
+
+  if (!isObject(entry)) {
+    throw new Error(`Invalid property mapping: ${where} must be an object`);
+  }
+
+  const {property, type, source, value} = entry;
+
+  if (typeof property !== 'string' || !property.trim()) {
+    throw new Error(`Invalid property mapping: ${where} is missing the "property" name`);
+  }
+  if (typeof type !== 'string' || !PROPERTY_CONVERTERS.includes(type as PropertyConverter)) {
+    throw new Error(
+      `Invalid property mapping: "${property}" has unknown type "${type}", ` +
+        `expected one of ${PROPERTY_CONVERTERS.join(', ')}`
+    );
+  }
+  if ((source === undefined) === (value === undefined)) {
+    throw new Error(
+      `Invalid property mapping: "${property}" must define exactly one of "source" or "value"`
+    );
+  }
+  if (source !== undefined) {
+    if (typeof source !== 'string') {
+      throw new Error(`Invalid property mapping: "${property}" has a non-string "source"`);
+    }
+    const isProjectField =
+      source.startsWith(PROJECT_FIELD_SOURCE_PREFIX) &&
+      source.length > PROJECT_FIELD_SOURCE_PREFIX.length;
+    if (!isProjectField && !ISSUE_FIELD_SOURCES.includes(source as IssueFieldSource)) {
+      throw new Error(
+        `Invalid property mapping: "${property}" has unknown source "${source}", expected one of ` +
+          `${ISSUE_FIELD_SOURCES.join(', ')} or ${PROJECT_FIELD_SOURCE_PREFIX}<field name>`
+      );
+    }
+  }
+  if (value !== undefined && typeof value !== 'string') {
+    throw new Error(`Invalid property mapping: "${property}" has a non-string "value"`);
+  }
+
+  return {property, type: type as PropertyConverter, source, value};
+}
+
+/**
+ * Validates a parsed property mapping.
+ *
+ * @param raw - The parsed JSON mapping
+ * @returns The validated mapping
+ *
+ * @throws When the mapping is malformed, with a message naming the offending entry.
+ */
+export function parsePropertyMapping(raw: unknown): PropertyMapping {
+  if (!Array.isArray(raw) || raw.length === 0) {
+    throw new Error('Invalid property mapping: expected a non-empty array of entries');
+  }
+
+  const mapping = raw.map(validateEntry);
+
+  const seen = new Set<string>();
+  for (const {property} of mapping) {
+    if (seen.has(property)) {
+      throw new Error(`Invalid property mapping: "${property}" is mapped more than once`);
+    }
+    seen.add(property);
+  }
+
+  if (mapping.filter(entry => entry.type === 'title').length !== 1) {
+    throw new Error('Invalid property mapping: exactly one entry must use the "title" type');
+  }
+
+  getIssueUrlProperty(mapping);
+
+  return mapping;
+}
+
+interface LoadPropertyMappingOptions {
+  json?: string;
+  file?: string;
+}
+
+/**
+ * Loads the property mapping from the `property-mapping` input or the `property-mapping-file`
+ * input, falling back to `DEFAULT_PROPERTY_MAPPING` when neither is set.
+ */
+export function loadPropertyMapping(options: LoadPropertyMappingOptions): PropertyMapping {
+  const {json, file} = options;
+
+  if (json && file) {
+    throw new Error('Only one of property-mapping and property-mapping-file can be set');
+  }
+
+  let text: string;
+  let origin: string;
+  if (json) {
+    text = json;
+    origin = 'property-mapping input';
+  } else if (file) {
+    try {
+      text = fs.readFileSync(file, 'utf8');
+    } catch (e) {
+      throw new Error(
+        `Unable to read property mapping file ${file}: ${e instanceof Error ? e.message : e}`
+      );
+    }
+    origin = file;
+  } else {
+    return DEFAULT_PROPERTY_MAPPING;
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch (e) {
+    throw new Error(
+      `Unable to parse property mapping from ${origin}: ${e instanceof Error ? e.message : e}`
+    );
+  }
+
+  return parsePropertyMapping(raw);
+}
+
+/**
+ * Returns the name of the Notion property holding the issue URL. It is used to find the page
+ * that belongs to an issue, so every mapping needs one.
+ */
+export function getIssueUrlProperty(mapping: PropertyMapping): string {
+  const entry = mapping.find(entry => entry.type === 'url' && entry.source === 'url');
+  if (!entry) {
+    throw new Error(
+      'Invalid property mapping: a "url" entry with source "url" is required to match issues to pages'
+    );
+  }
+  return entry.property;
+}
+
+function getTextSourceProperty(mapping: PropertyMapping, source: IssueFieldSource) {
+  return mapping.find(entry => entry.type === 'text' && entry.source === source)?.property ?? null;
+}
+
+/**
+ * Returns the name of the Notion property holding the issue node ID, which identifies pages
+ * before their URL, or `null` when the mapping has none.
+ */
+export function getNodeIdProperty(mapping: PropertyMapping): string | null {
+  return getTextSourceProperty(mapping, 'nodeId');
+}
+
+/**
+ * Returns the name of the Notion property holding the project item ID, which identifies the
+ * pages of draft issues, or `null` when the mapping has none.
+ */
+export function getProjectItemIdProperty(mapping: PropertyMapping): string | null {
+  return getTextSourceProperty(mapping, 'projectItemId');
+}
+
+const STATUS_FALLBACKS: StatusFallback[] = ['default', 'state', 'none'];
+
+interface LoadStatusMappingOptions {
+  json?: string;
+  defaultStatus?: string;
+  fallback?: string;
+}
+
+/**
+ * Loads the status mapping from the `status-mapping`, `status-default` and `status-fallback`
+ * inputs, each falling back to `DEFAULT_STATUS_MAPPING` when not set.
+ *
+ * @throws When the mapping is not a JSON object of strings or the fallback is unknown.
+ */
+export function loadStatusMapping(options: LoadStatusMappingOptions): StatusMapping {
+  const {json, defaultStatus, fallback} = options;
+
+  let statuses = DEFAULT_STATUS_MAPPING.statuses;
+  if (json) {
+    let raw: unknown;
+    try {
+      raw = JSON.parse(json);
+    } catch (e) {
+      throw new Error(`Unable to parse status mapping: ${e instanceof Error ? e.message : e}`);
+    }
+
+    if (!isObject(raw) || Object.values(raw).some(value => typeof value !== 'string')) {
+      throw new Error(
+        'Invalid status mapping: expected an object of Notion statuses keyed by GitHub status'
+      );
+    }
+    statuses = raw as Record<string, string>;
+  }
+
+  if (fallback && !STATUS_FALLBACKS.includes(fallback as StatusFallback)) {
+    throw new Error(
+      `Invalid status fallback "${fallback}", expected one of ${STATUS_FALLBACKS.join(', ')}`
+    );
+  }
+
+  return {
+    statuses,
+    defaultStatus: defaultStatus || DEFAULT_STATUS_MAPPING.defaultStatus,
+    fallback: (fallback as StatusFallback) || DEFAULT_STATUS_MAPPING.fallback,
+  };
+}
+
+function readSource(entry: PropertyMappingEntry, issue: IssueFields | DraftIssueFields) {
+  if (entry.value !== undefined) return entry.value;
+
+  const source = entry.source as string;
+  if (source.startsWith(PROJECT_FIELD_SOURCE_PREFIX)) {
+    return issue.projectFields[source.slice(PROJECT_FIELD_SOURCE_PREFIX.length)] ?? null;
+  }
+  return (issue as Partial<IssueFields>)[source as IssueFieldSource];
+}
+
+function isIteration(value: unknown): value is ProjectIteration {
+  return isObject(value) && typeof value.title === 'string' && typeof value.startDate === 'string';
+}
+
+function asString(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  if (Array.isArray(value)) return value.join(', ');
+  if (isIteration(value)) return value.title;
+  return String(value);
+}
+
+function asList(value: unknown): string[] {
+  if (value === null || value === undefined || value === '') return [];
+  if (Array.isArray(value)) return value.map(String);
+  return [asString(value)];
+}
+
+function convertStatus(
+  entry: PropertyMappingEntry,
+  githubStatus: string,
+  issue: IssueFields | DraftIssueFields,
+  statusMapping: StatusMapping
+): CustomPropertyValue | null {
+  if (Object.prototype.hasOwnProperty.call(statusMapping.statuses, githubStatus)) {
+    return properties.status(githubStatus, statusMapping);
+  }
+
+  if (githubStatus) {
+    const name = 'url' in issue ? issue.url : `draft issue '${issue.title}'`;
+    core.warning(
+      `GitHub status '${githubStatus}' of ${name} has no Notion status mapping, ` +
+        `using the '${statusMapping.fallback}' fallback for "${entry.property}"`
+    );
+  }
+
+  switch (statusMapping.fallback) {
+    case 'default':
+      return properties.status(githubStatus, statusMapping);
+    case 'state':
+      return properties.stateStatus(issue.state);
+    case 'none':
+      return null;
+  }
+}
+
+function convert(
+  entry: PropertyMappingEntry,
+  value: unknown,
+  issue: IssueFields | DraftIssueFields,
+  context: PropertyContext
+): CustomPropertyValue | null {
+  const text = asString(value);
+
+  switch (entry.type) {
+    case 'title':
+      return properties.title(text);
+    case 'text':
+      return properties.text(text);
+    case 'number':
+      return text && !isNaN(Number(text))
+        ? properties.number(Number(text))
+        : {type: 'number', number: null};
+    case 'date':
+      if (isIteration(value)) return properties.date(value.startDate, value.endDate);
+      return text ? properties.date(text) : {type: 'date', date: null};
+    case 'select':
+      return text ? properties.select(text) : {type: 'select', select: null};
+    case 'multiSelect':
+      return properties.multiSelect(asList(value));
+    case 'url':
+      return {type: 'url', url: text || null};
+    case 'person':
+      return properties.person(asList(value), context.userRelations);
+    case 'relation':
+      return properties.relation(text, context.notionProjects);
+    case 'status':
+      return convertStatus(entry, text, issue, context.statusMapping ?? DEFAULT_STATUS_MAPPING);
+    case 'state':
+      return properties.getStatusSelectOption(
+        text === 'closed' || text === 'deleted' ? text : 'open'
+      );
+    case 'checkbox':
+      return properties.checkbox(value === true || text === 'true');
+    case 'issueRelation':
+      return properties.issueRelation(asList(value), context.issuePages ?? {});
+  }
+}
+
+/**
+ * Builds the Notion page properties of an issue according to the property mapping.
+ *
+ * @param mapping - The validated property mapping
+ * @param issue - The normalized issue fields, or the fields of a draft issue
+ * @param context - The Notion users and projects used by `person` and `relation` entries, and
+ *                  the status mapping used by `status` entries
+ * @returns The Notion properties, keyed by property name. Properties whose issue field is not
+ *          set and status properties left unchanged by the `none` status fallback are omitted.
+ */
+export function buildProperties(
+  mapping: PropertyMapping,
+  issue: IssueFields | DraftIssueFields,
+  context: PropertyContext
+): CustomValueMap {
+  const result: CustomValueMap = {};
+
+  for (const entry of mapping) {
+    const source = readSource(entry, issue);
+    if (source === undefined) continue;
+
+    const value = convert(entry, source, issue, context);
+    if (value) result[entry.property] = value;
+  }
+
+  return result;
+}
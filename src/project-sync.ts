@@ -0,0 +1,557 @@
+import {Client} from '@notionhq/client/build/src';
+import * as core from '@actions/core';
+import {getNotionRelations, graphqlWithAuth, NotionRelationsConfig} from './action';
+import {createPageWithBlocks, getBodyChildrenBlocks} from './blocks';
+import {getChangedProperties, PageProperties} from './compare';
+import {
+  buildProperties,
+  DraftIssueFields,
+  getIssueUrlProperty,
+  getNodeIdProperty,
+  getProjectItemIdProperty,
+  IssueFields,
+  PropertyMapping,
+} from './mapping';
+import {
+  FIELD_VALUES_FRAGMENT,
+  FieldValueConnection,
+  ProjectFields,
+  readItemFieldValues,
+} from './projects';
+import {CustomValueMap, StatusMapping} from './properties';
+import {PullRequestSyncConfig} from './pull-requests';
+import {incrementCount, recordUnmappedAssignees, SyncReport} from './report';
+import {createIssueMapping, findIssuePage, IssuePage, setIssuePage, storePageNodeId} from './sync';
+
+/**
+ * The organization or user ProjectV2 synced by the `project-sync` mode.
+ *
+ * @property owner - The login of the organization or user owning the project.
+ * @property number - The project number.
+ */
+export interface ProjectSyncConfig {
+  owner: string;
+  number: number;
+}
+
+export interface IssueContent {
+  __typename: 'Issue';
+  id: string;
+  number: number;
+  title: string;
+  issueState: 'OPEN' | 'CLOSED';
+  url: string;
+  body: string;
+  createdAt: string;
+  updatedAt: string;
+  closedAt: string | null;
+  author: {login: string} | null;
+  repository: {name: string};
+  assignees: {nodes: Array<{login: string}>};
+  labels: {nodes: Array<{name: string}>};
+  milestone: {title: string} | null;
+}
+
+export interface PullRequestContent extends Omit<IssueContent, '__typename' | 'issueState'> {
+  __typename: 'PullRequest';
+  pullRequestState: 'OPEN' | 'CLOSED' | 'MERGED';
+  isDraft: boolean;
+  mergedAt: string | null;
+  headRefName: string;
+  baseRefName: string;
+  reviewRequests: {nodes: Array<{requestedReviewer: {login?: string} | null}>};
+  closingIssuesReferences: {nodes: Array<{url: string}>};
+}
+
+export interface DraftIssueContent {
+  __typename: 'DraftIssue';
+  title: string;
+  body: string;
+  createdAt: string;
+  updatedAt: string;
+  creator: {login: string} | null;
+  assignees: {nodes: Array<{login: string}>};
+}
+
+export interface ProjectItem {
+  id: string;
+  isArchived: boolean;
+  content: IssueContent | PullRequestContent | DraftIssueContent | null;
+  fieldValues: FieldValueConnection;
+}
+
+interface ProjectItemsResponse {
+  repositoryOwner: {
+    projectV2: {
+      title: string;
+      items: {
+        pageInfo: {endCursor: string; hasNextPage: boolean};
+        nodes: ProjectItem[];
+      };
+    } | null;
+  } | null;
+}
+
+const ISSUE_FIELDS = `
+  id
+  number
+  title
+  url
+  body
+  createdAt
+  updatedAt
+  closedAt
+  author { login }
+  repository { name }
+  assignees(first: 30) { nodes { login } }
+  labels(first: 30) { nodes { name } }
+  milestone { title }
+`;
+
+/** Queries a page of the items of a project with their content and field values. */
+export const PROJECT_ITEMS_QUERY = `
+  query($owner: String!, $number: Int!, $cursor: String) {
+    repositoryOwner(login: $owner) {
+      ... on Organization {
+        projectV2(number: $number) {
+          ...projectItems
+        }
+      }
+      ... on User {
+        projectV2(number: $number) {
+          ...projectItems
+        }
+      }
+    }
+  }
+  fragment projectItems on ProjectV2 {
+    title
+    items(first: 20, after: $cursor) {
+      pageInfo {
+        endCursor
+        hasNextPage
+      }
+      nodes {
+        id
+        isArchived
+        content {
+          __typename
+          ... on Issue {
+            issueState: state
+            ${ISSUE_FIELDS}
+          }
+          ... on PullRequest {
+            pullRequestState: state
+            ${ISSUE_FIELDS}
+            isDraft
+            mergedAt
+            headRefName
+            baseRefName
+            reviewRequests(first: 30) {
+              nodes {
+                requestedReviewer {
+                  ... on User { login }
+                }
+              }
+            }
+            closingIssuesReferences(first: 30) {
+              nodes { url }
+            }
+          }
+          ... on DraftIssue {
+            title
+            body
+            createdAt
+            updatedAt
+            creator { login }
+            assignees(first: 30) { nodes { login } }
+          }
+        }
+        fieldValues(first: 50) {
+          ...fieldValues
+        }
+      }
+    }
+  }
+  ${FIELD_VALUES_FRAGMENT}
+`;
+
+/**
+ * Fetches every item of an organization or user project, with its content and field values.
+ */
+async function getProjectItems(config: ProjectSyncConfig) {
+  const items: Array<{item: ProjectItem; fields: ProjectFields}> = [];
+  let title = '';
+  let hasNextPage = true;
+  let cursor: string | undefined = undefined;
+
+  while (hasNextPage) {
+    const response = (await graphqlWithAuth(PROJECT_ITEMS_QUERY, {
+      owner: config.owner,
+      number: config.number,
+      cursor,
+    })) as ProjectItemsResponse;
+
+    const project = response.repositoryOwner?.projectV2;
+    if (!project) {
+      throw new Error(`Unable to find project #${config.number} of ${config.owner}`);
+    }
+
+    title = project.title;
+    for (const item of project.items.nodes) {
+      if (item.isArchived) continue;
+      items.push({item, fields: await readItemFieldValues(item.id, item.fieldValues)});
+    }
+
+    hasNextPage = project.items.pageInfo.hasNextPage;
+    cursor = project.items.pageInfo.endCursor;
+  }
+
+  core.info(`Found ${items.length} items in project '${title}'`);
+
+  return {title, items};
+}
+
+export function getDraftFields(
+  item: ProjectItem,
+  content: DraftIssueContent,
+  projectTitle: string,
+  projectFields: ProjectFields
+): DraftIssueFields {
+  return {
+    title: content.title,
+    state: 'open',
+    assignees: content.assignees.nodes.map(assignee => assignee.login),
+    labels: [],
+    milestone: null,
+    author: content.creator?.login ?? null,
+    createdAt: content.createdAt,
+    updatedAt: content.updatedAt,
+    closedAt: null,
+    projects: [projectTitle],
+    projectFields,
+    projectItemId: item.id,
+  };
+}
+
+export function getItemFields(
+  item: ProjectItem,
+  content: IssueContent | PullRequestContent,
+  projectTitle: string,
+  projectFields: ProjectFields
+): IssueFields {
+  const fields: IssueFields = {
+    title: content.title,
+    number: content.number,
+    state: 'open',
+    url: content.url,
+    repository: content.repository.name,
+    assignees: content.assignees.nodes.map(assignee => assignee.login),
+    labels: content.labels.nodes.map(label => label.name),
+    milestone: content.milestone?.title ?? null,
+    author: content.author?.login ?? null,
+    createdAt: content.createdAt,
+    updatedAt: content.updatedAt,
+    closedAt: content.closedAt,
+    projects: [projectTitle],
+    projectFields,
+    nodeId: content.id,
+    projectItemId: item.id,
+  };
+
+  if (content.__typename === 'Issue') {
+    return {...fields, state: content.issueState === 'CLOSED' ? 'closed' : 'open'};
+  }
+
+  return {
+    ...fields,
+    state: content.pullRequestState === 'OPEN' ? 'open' : 'closed',
+    draft: content.isDraft,
+    merged: content.pullRequestState === 'MERGED',
+    mergedAt: content.mergedAt,
+    reviewers: content.reviewRequests.nodes.flatMap(request =>
+      request.requestedReviewer?.login ? [request.requestedReviewer.login] : []
+    ),
+    headBranch: content.headRefName,
+    baseBranch: content.baseRefName,
+    closesIssues: content.closingIssuesReferences.nodes.map(issue => issue.url),
+  };
+}
+
+/**
+ * Maps the issues a pull request closes to their pages, for `issueRelation` entries.
+ */
+function getClosedIssuePages(
+  pages: Map<string, IssuePage>,
+  pullRequest: IssueFields
+): Record<string, string> {
+  const issuePages: Record<string, string> = {};
+  for (const issueUrl of pullRequest.closesIssues ?? []) {
+    const page = findIssuePage(pages, {url: issueUrl, nodeId: null});
+    if (page) issuePages[issueUrl] = page.pageId;
+    else core.info(`No page found for issue ${issueUrl} closed by ${pullRequest.url}`);
+  }
+  return issuePages;
+}
+
+interface ProjectSyncTarget {
+  databaseId: string;
+  propertyMapping: PropertyMapping;
+  pages: Map<string, IssuePage>;
+}
+
+export interface ProjectSyncOptions {
+  notion: {
+    client: Client;
+    databaseId: string;
+    propertyMapping: PropertyMapping;
+    statusMapping: StatusMapping;
+    relations: NotionRelationsConfig;
+  };
+  project: ProjectSyncConfig;
+  pullRequests: PullRequestSyncConfig | null;
+  reconcile: boolean;
+  report: SyncReport;
+}
+
+interface DatabaseQueryResults {
+  results: Array<{id: string; object: string; properties?: PageProperties}>;
+  has_more: boolean;
+  next_cursor: string | null;
+}
+
+/**
+ * Maps the project item IDs stored in the database to their pages.
+ */
+async function getItemPages(
+  client: Client,
+  databaseId: string,
+  itemIdProperty: string
+): Promise<Map<string, IssuePage>> {
+  const pages = new Map<string, IssuePage>();
+  let cursor: string | undefined = undefined;
+  let hasMore = true;
+
+  while (hasMore) {
+    const response = (await client.databases.query({
+      database_id: databaseId,
+      start_cursor: cursor,
+      filter: {property: itemIdProperty, rich_text: {is_not_empty: true}},
+    })) as DatabaseQueryResults;
+
+    for (const page of response.results) {
+      const property = page.properties?.[itemIdProperty];
+      if (page.object !== 'page' || property?.type !== 'rich_text') continue;
+
+      const itemId = property.rich_text.map(text => text.plain_text).join('');
+      pages.set(itemId, {pageId: page.id, nodeId: null, properties: page.properties ?? null});
+    }
+
+    hasMore = response.has_more;
+    cursor = response.next_cursor ?? undefined;
+  }
+
+  return pages;
+}
+
+export interface SyncPageOptions {
+  client: Client;
+  databaseId: string;
+  pages: Map<string, IssuePage>;
+  /** The key of the page in `pages`, its issue URL or project item ID. */
+  key: string;
+  /** The issue node ID, `null` for draft issues. */
+  nodeId: string | null;
+  /** The property storing the node ID, `null` when the property mapping has none. */
+  nodeIdProperty: string | null;
+  properties: CustomValueMap;
+  body: string;
+  reconcile: boolean;
+  report: SyncReport;
+}
+
+/**
+ * Creates the page of an item when it has none, or updates the changed properties of its page
+ * when `reconcile` is set. Without `reconcile`, only the node ID of pages found by URL is stored.
+ */
+export async function syncPage(options: SyncPageOptions) {
+  const {client, pages, key, nodeId, nodeIdProperty, properties, report} = options;
+
+  const page = findIssuePage(pages, {url: key, nodeId});
+  if (!page) {
+    core.info(`Creating page for ${key}`);
+    const created = await createPageWithBlocks(
+      client,
+      {parent: {database_id: options.databaseId}, properties},
+      getBodyChildrenBlocks(options.body)
+    );
+    setIssuePage(pages, {url: key, nodeId}, {pageId: created.id, nodeId, properties: null});
+    incrementCount(report, 'created');
+    return;
+  }
+
+  if (!options.reconcile) {
+    if (nodeIdProperty) await storePageNodeId(client, page, nodeIdProperty, {url: key, nodeId});
+    return;
+  }
+  if (!page.properties) return;
+
+  const changed = getChangedProperties(page.properties, properties);
+  const changedNames = Object.keys(changed);
+  if (changedNames.length === 0) {
+    incrementCount(report, 'unchanged');
+    return;
+  }
+
+  core.info(`Updating ${changedNames.join(', ')} of page ${page.pageId} for ${key}`);
+  await client.pages.update({page_id: page.pageId, properties: changed});
+  incrementCount(report, 'updated');
+}
+
+/**
+ * Syncs the issues and pull requests of an organization or user project into Notion, whatever
+ * repository they belong to. The project's own field values fill the `project.<field name>`
+ * properties. Missing pages are created, and existing ones reconciled when `reconcile` is set.
+ *
+ * Pull requests are only synced when pull request sync is enabled, after the issues, so that they
+ * relate to the pages of the issues they close. Draft issues have no URL, so they are only
+ * synced when the property mapping stores the project item ID, which keys their pages. When a
+ * draft is converted into an issue, its page is linked to the issue, or archived when the issue
+ * already has its own page.
+ */
+export async function syncProjectWithNotion(options: ProjectSyncOptions) {
+  const {notion, project, pullRequests, report} = options;
+
+  core.info(`Syncing project #${project.number} of ${project.owner}`);
+
+  const {title, items} = await getProjectItems(project);
+  const notionRelations = await getNotionRelations(notion.client, notion.relations);
+  const context = {
+    userRelations: notionRelations.users,
+    notionProjects: notionRelations.projects,
+    statusMapping: notion.statusMapping,
+  };
+
+  const issueTarget: ProjectSyncTarget = {
+    databaseId: notion.databaseId,
+    propertyMapping: notion.propertyMapping,
+    pages: await createIssueMapping(
+      notion.client,
+      notion.databaseId,
+      getIssueUrlProperty(notion.propertyMapping),
+      getNodeIdProperty(notion.propertyMapping)
+    ),
+  };
+  let pullRequestTarget: ProjectSyncTarget | null = null;
+  if (pullRequests) {
+    pullRequestTarget =
+      pullRequests.databaseId === notion.databaseId
+        ? {...issueTarget, propertyMapping: pullRequests.propertyMapping}
+        : {
+            ...pullRequests,
+            pages: await createIssueMapping(
+              notion.client,
+              pullRequests.databaseId,
+              getIssueUrlProperty(pullRequests.propertyMapping),
+              getNodeIdProperty(pullRequests.propertyMapping)
+            ),
+          };
+  }
+
+  const itemIdProperty = getProjectItemIdProperty(notion.propertyMapping);
+  const itemPages = itemIdProperty
+    ? await getItemPages(notion.client, notion.databaseId, itemIdProperty)
+    : new Map<string, IssuePage>();
+
+  // Pull requests go last, so that the pages of the issues they close exist
+  const isPullRequest = ({item}: {item: ProjectItem}) => item.content?.__typename === 'PullRequest';
+  const orderedItems = [
+    ...items.filter(entry => !isPullRequest(entry)),
+    ...items.filter(isPullRequest),
+  ];
+
+  for (const {item, fields} of orderedItems) {
+    const content = item.content;
+    if (!content) continue;
+
+    if (content.__typename === 'DraftIssue') {
+      if (!itemIdProperty) {
+        core.info(
+          `Skipping draft issue '${content.title}', the property mapping has no text entry ` +
+            'with the projectItemId source to match its page by'
+        );
+        continue;
+      }
+
+      const draft = getDraftFields(item, content, title, fields);
+      recordUnmappedAssignees(
+        report,
+        `draft issue '${draft.title}'`,
+        draft.assignees,
+        context.userRelations
+      );
+
+      await syncPage({
+        client: notion.client,
+        databaseId: notion.databaseId,
+        pages: itemPages,
+        key: item.id,
+        nodeId: null,
+        nodeIdProperty: null,
+        properties: buildProperties(notion.propertyMapping, draft, context),
+        body: content.body,
+        reconcile: options.reconcile,
+        report,
+      });
+      continue;
+    }
+
+    const target = content.__typename === 'Issue' ? issueTarget : pullRequestTarget;
+    if (!target) {
+      core.info(`Pull request sync is disabled, skipping ${content.url}`);
+      continue;
+    }
+
+    const issue = getItemFields(item, content, title, fields);
+    recordUnmappedAssignees(report, issue.url, issue.assignees, context.userRelations);
+
+    const key = {url: issue.url, nodeId: content.id};
+
+    // A draft converted into an issue keeps its project item, and so its page
+    const draftPage = target === issueTarget ? itemPages.get(item.id) : undefined;
+    const issuePage = findIssuePage(target.pages, key);
+    const converted = !issuePage && draftPage;
+    if (converted) {
+      core.info(`Linking page ${converted.pageId} of the converted draft issue to ${issue.url}`);
+      setIssuePage(target.pages, key, converted);
+    }
+
+    // Converting a draft opens the issue, which may have got its own page from the issue events
+    if (issuePage && draftPage && draftPage.pageId !== issuePage.pageId) {
+      core.warning(
+        `Archiving page ${draftPage.pageId} of the draft issue converted into ${issue.url}, ` +
+          `which has its own page ${issuePage.pageId}`
+      );
+      await notion.client.pages.update({page_id: draftPage.pageId, in_trash: true});
+      itemPages.delete(item.id);
+      incrementCount(report, 'pages-archived');
+    }
+
+    const issuePages = target.propertyMapping.some(entry => entry.type === 'issueRelation')
+      ? getClosedIssuePages(issueTarget.pages, issue)
+      : {};
+
+    await syncPage({
+      client: notion.client,
+      databaseId: target.databaseId,
+      pages: target.pages,
+      key: issue.url,
+      nodeId: content.id,
+      nodeIdProperty: getNodeIdProperty(target.propertyMapping),
+      properties: buildProperties(target.propertyMapping, issue, {...context, issuePages}),
+      body: content.body,
+      reconcile: options.reconcile || !!converted,
+      report,
+    });
+  }
+}
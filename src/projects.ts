@@ -0,0 +1,534 @@
+import * as core from '@actions/core';
+import {graphqlWithAuth} from './action';
+import {dataCache} from './cache';
+import {IssueFields, ProjectFieldValue} from './mapping';
+
+export type ProjectFields = IssueFields['projectFields'];
+
+/**
+ * A GitHub Project an issue belongs to, with the values of the issue's item in it.
+ *
+ * @property number - The project number, unique within its owner.
+ * @property itemId - The node ID of the issue's item in the project.
+ * @property customFields - The item field values, keyed by field name.
+ */
+export interface ProjectData {
+  number: number;
+  name: string;
+  url: string;
+  itemId: string;
+  customFields: ProjectFields;
+}
+
+/**
+ * @property projectItems - The project items already queried with the issue, with
+ *   `PROJECT_ITEMS_FRAGMENT`. Only the items beyond them are fetched.
+ */
+interface GetProjectDataOptions {
+  githubRepo: string;
+  issueNumber: number;
+  projectItems?: ProjectItemConnection;
+}
+
+interface PageInfo {
+  hasNextPage: boolean;
+  endCursor: string | null;
+}
+
+interface ListConnection<T> {
+  pageInfo: PageInfo;
+  nodes: T[];
+}
+
+export interface FieldValueNode {
+  field?: {name: string};
+  name?: string;
+  text?: string;
+  number?: number | null;
+  date?: string | null;
+  title?: string;
+  startDate?: string;
+  duration?: number;
+  milestone?: {title: string} | null;
+  labels?: ListConnection<{name: string}> | null;
+  users?: ListConnection<{login: string}> | null;
+  repository?: {name: string} | null;
+  pullRequests?: ListConnection<{url: string}> | null;
+}
+
+export interface FieldValueConnection {
+  pageInfo: PageInfo;
+  nodes: FieldValueNode[];
+}
+
+export interface ProjectItemConnection {
+  pageInfo: PageInfo;
+  nodes: Array<{
+    id: string;
+    project: {number: number; title: string; url: string};
+    fieldValues: FieldValueConnection;
+  }>;
+}
+
+interface IssueProjectItemsResponse {
+  repository: {
+    issueOrPullRequest: {
+      projectItems?: ProjectItemConnection;
+    } | null;
+  };
+}
+
+interface ItemFieldValuesResponse {
+  node: {fieldValues: FieldValueConnection} | null;
+}
+
+/**
+ * The field values listing labels, users or pull requests, with the type of their field value and
+ * what is read from each of their nodes.
+ */
+const LIST_FIELD_VALUES = {
+  labels: {type: 'ProjectV2ItemFieldLabelValue', value: 'name'},
+  users: {type: 'ProjectV2ItemFieldUserValue', value: 'login'},
+  pullRequests: {type: 'ProjectV2ItemFieldPullRequestValue', value: 'url'},
+} as const;
+
+type ListFieldConnection = keyof typeof LIST_FIELD_VALUES;
+
+interface ListFieldValuesResponse {
+  node: {
+    fieldValueByName?: Partial<
+      Record<ListFieldConnection, ListConnection<Record<string, string>>>
+    > | null;
+  } | null;
+}
+
+/**
+ * The `fieldValues` fragment whose results `readItemFieldValues` reads. Only the first labels,
+ * users and pull requests of a field value are queried, since GitHub rejects queries that could
+ * return more than 500,000 nodes, and the others are fetched separately.
+ */
+export const FIELD_VALUES_FRAGMENT = `
+  fragment fieldValues on ProjectV2ItemFieldValueConnection {
+    pageInfo {
+      hasNextPage
+      endCursor
+    }
+    nodes {
+      ... on ProjectV2ItemFieldSingleSelectValue {
+        field {
+          ... on ProjectV2FieldCommon {
+            name
+          }
+        }
+        name
+      }
+      ... on ProjectV2ItemFieldTextValue {
+        field {
+          ... on ProjectV2FieldCommon {
+            name
+          }
+        }
+        text
+      }
+      ... on ProjectV2ItemFieldNumberValue {
+        field {
+          ... on ProjectV2FieldCommon {
+            name
+          }
+        }
+        number
+      }
+      ... on ProjectV2ItemFieldDateValue {
+        field {
+          ... on ProjectV2FieldCommon {
+            name
+          }
+        }
+        date
+      }
+      ... on ProjectV2ItemFieldIterationValue {
+        field {
+          ... on ProjectV2FieldCommon {
+            name
+          }
+        }
+        title
+        startDate
+        duration
+      }
+      ... on ProjectV2ItemFieldMilestoneValue {
+        field {
+          ... on ProjectV2FieldCommon {
+            name
+          }
+        }
+        milestone {
+          title
+        }
+      }
+      ... on ProjectV2ItemFieldLabelValue {
+        field {
+          ... on ProjectV2FieldCommon {
+            name
+          }
+        }
+        labels(first: 10) {
+          pageInfo {
+            hasNextPage
+            endCursor
+          }
+          nodes {
+            name
+          }
+        }
+      }
+      ... on ProjectV2ItemFieldUserValue {
+        field {
+          ... on ProjectV2FieldCommon {
+            name
+          }
+        }
+        users(first: 10) {
+          pageInfo {
+            hasNextPage
+            endCursor
+          }
+          nodes {
+            login
+          }
+        }
+      }
+      ... on ProjectV2ItemFieldRepositoryValue {
+        field {
+          ... on ProjectV2FieldCommon {
+            name
+          }
+        }
+        repository {
+          name
+        }
+      }
+      ... on ProjectV2ItemFieldPullRequestValue {
+        field {
+          ... on ProjectV2FieldCommon {
+            name
+          }
+        }
+        pullRequests(first: 10) {
+          pageInfo {
+            hasNextPage
+            endCursor
+          }
+          nodes {
+            url
+          }
+        }
+      }
+    }
+  }
+`;
+
+function addDays(date: string, days: number): string {
+  const result = new Date(`${date}T00:00:00Z`);
+  result.setUTCDate(result.getUTCDate() + days);
+  return result.toISOString().substring(0, 10);
+}
+
+/**
+ * Reads the value of a project item field, whatever its type. Returns `undefined` for field
+ * values this action does not understand.
+ */
+export function readFieldValue(node: FieldValueNode): ProjectFieldValue | undefined {
+  if (node.name !== undefined) return node.name || null;
+  if (node.text !== undefined) return node.text || null;
+  if (node.number !== undefined) return node.number;
+  if (node.date !== undefined) return node.date;
+  if (node.title !== undefined && node.startDate !== undefined) {
+    // Iterations last `duration` days, their end date is the last day of the iteration
+    return {
+      title: node.title,
+      startDate: node.startDate,
+      endDate: addDays(node.startDate, Math.max((node.duration ?? 1) - 1, 0)),
+    };
+  }
+  if (node.milestone !== undefined) return node.milestone?.title ?? null;
+  if (node.labels !== undefined) return node.labels?.nodes.map(label => label.name) ?? [];
+  if (node.users !== undefined) return node.users?.nodes.map(user => user.login) ?? [];
+  if (node.repository !== undefined) return node.repository?.name ?? null;
+  if (node.pullRequests !== undefined) {
+    return node.pullRequests?.nodes.map(pullRequest => pullRequest.url) ?? [];
+  }
+  return undefined;
+}
+
+/**
+ * Fetches the labels, users or pull requests of a field value following those already read.
+ *
+ * @param after - The cursor of the last one read
+ */
+async function fetchListFieldValues(
+  itemId: string,
+  fieldName: string,
+  connectionName: ListFieldConnection,
+  after: string | null
+): Promise<string[]> {
+  const {type, value} = LIST_FIELD_VALUES[connectionName];
+  const values: string[] = [];
+  let hasNextPage = true;
+  let endCursor = after;
+
+  while (hasNextPage) {
+    const response = (await graphqlWithAuth(
+      `
+      query($id: ID!, $field: String!, $after: String) {
+        node(id: $id) {
+          ... on ProjectV2Item {
+            fieldValueByName(name: $field) {
+              ... on ${type} {
+                ${connectionName}(first: 100, after: $after) {
+                  pageInfo {
+                    hasNextPage
+                    endCursor
+                  }
+                  nodes {
+                    ${value}
+                  }
+                }
+              }
+            }
+          }
+        }
+      }
+      `,
+      {id: itemId, field: fieldName, after: endCursor}
+    )) as ListFieldValuesResponse;
+
+    const connection = response.node?.fieldValueByName?.[connectionName];
+    if (!connection) break;
+
+    values.push(...connection.nodes.map(node => node[value]));
+    ({hasNextPage, endCursor} = connection.pageInfo);
+  }
+
+  return values;
+}
+
+async function readFieldValues(itemId: string, nodes: FieldValueNode[], fields: ProjectFields) {
+  for (const fieldValue of nodes) {
+    const fieldName = fieldValue.field?.name;
+    const value = readFieldValue(fieldValue);
+    if (!fieldName || value === undefined) continue;
+
+    fields[fieldName] = value;
+
+    for (const connectionName of Object.keys(LIST_FIELD_VALUES) as ListFieldConnection[]) {
+      const pageInfo = fieldValue[connectionName]?.pageInfo;
+      if (Array.isArray(value) && pageInfo?.hasNextPage) {
+        value.push(
+          ...(await fetchListFieldValues(itemId, fieldName, connectionName, pageInfo.endCursor))
+        );
+      }
+    }
+  }
+}
+
+/**
+ * Reads the field values of a project item, fetching those beyond the first page, and the labels,
+ * users and pull requests beyond the first ones.
+ *
+ * @param itemId - The node ID of the project item
+ * @param connection - The first page of field values, queried with `FIELD_VALUES_FRAGMENT`
+ * @returns The field values, keyed by field name
+ */
+export async function readItemFieldValues(
+  itemId: string,
+  connection: FieldValueConnection
+): Promise<ProjectFields> {
+  const fields: ProjectFields = {};
+  await readFieldValues(itemId, connection.nodes, fields);
+
+  let {hasNextPage, endCursor} = connection.pageInfo;
+
+  while (hasNextPage) {
+    const response = (await graphqlWithAuth(
+      `
+      query($id: ID!, $after: String) {
+        node(id: $id) {
+          ... on ProjectV2Item {
+            fieldValues(first: 100, after: $after) {
+              ...fieldValues
+            }
+          }
+        }
+      }
+      ${FIELD_VALUES_FRAGMENT}
+      `,
+      {id: itemId, after: endCursor}
+    )) as ItemFieldValuesResponse;
+
+    if (!response.node) break;
+
+    await readFieldValues(itemId, response.node.fieldValues.nodes, fields);
+    ({hasNextPage, endCursor} = response.node.fieldValues.pageInfo);
+  }
+
+  return fields;
+}
+
+/** The `projectItems` fragment whose results `getIssueProjects` reads. */
+export const PROJECT_ITEMS_FRAGMENT = `
+  fragment projectItems on ProjectV2ItemConnection {
+    pageInfo {
+      hasNextPage
+      endCursor
+    }
+    nodes {
+      id
+      project {
+        number
+        title
+        url
+      }
+      fieldValues(first: 20) {
+        ...fieldValues
+      }
+    }
+  }
+  ${FIELD_VALUES_FRAGMENT}
+`;
+
+/** Queries the project items of an issue or pull request with their field values. */
+export const ISSUE_PROJECT_ITEMS_QUERY = `
+  query($owner: String!, $repo: String!, $number: Int!, $after: String) {
+    repository(owner: $owner, name: $repo) {
+      issueOrPullRequest(number: $number) {
+        ... on Issue {
+          projectItems(first: 20, after: $after, includeArchived: false) {
+            ...projectItems
+          }
+        }
+        ... on PullRequest {
+          projectItems(first: 20, after: $after, includeArchived: false) {
+            ...projectItems
+          }
+        }
+      }
+    }
+  }
+  ${PROJECT_ITEMS_FRAGMENT}
+`;
+
+async function fetchIssueProjects(options: GetProjectDataOptions): Promise<ProjectData[]> {
+  const {githubRepo, issueNumber} = options;
+  const [owner, repo] = githubRepo.split('/');
+
+  const projects: ProjectData[] = [];
+  let connection = options.projectItems;
+  let hasNextPage = true;
+  let endCursor: string | null = null;
+
+  while (hasNextPage) {
+    if (!connection) {
+      core.info(`Fetching projectsV2 items of issue #${issueNumber} in repo ${githubRepo}`);
+      const response = (await graphqlWithAuth(ISSUE_PROJECT_ITEMS_QUERY, {
+        owner,
+        repo,
+        number: issueNumber,
+        after: endCursor,
+      })) as IssueProjectItemsResponse;
+
+      connection = response.repository.issueOrPullRequest?.projectItems;
+      if (!connection) break;
+    }
+
+    for (const item of connection.nodes) {
+      const customFields = await readItemFieldValues(item.id, item.fieldValues);
+
+      projects.push({
+        number: item.project.number,
+        name: item.project.title,
+        url: item.project.url,
+        itemId: item.id,
+        customFields,
+      });
+    }
+
+    ({hasNextPage, endCursor} = connection.pageInfo);
+    connection = undefined;
+  }
+
+  core.info(`Issue #${issueNumber} belongs to ${projects.length} projectsV2.`);
+
+  return projects;
+}
+
+/**
+ * Fetches every GitHub Project the issue or pull request belongs to, through its own project
+ * items, once per run. They are not persisted: project field edits do not update the issue, so
+ * nothing short of fetching them tells whether they changed.
+ *
+ * @returns The projects of the issue, in the order GitHub lists them; empty when it is in none
+ */
+export function getIssueProjects(options: GetProjectDataOptions): Promise<ProjectData[]> {
+  return dataCache.memoize(`github-projects/${options.githubRepo}#${options.issueNumber}`, () =>
+    fetchIssueProjects(options)
+  );
+}
+
+/**
+ * Whether a project is the one selected by the `primary-project` input, given as a project
+ * number or title.
+ */
+export function matchesProject(project: {number: number; title: string}, selector: string) {
+  return String(project.number) === selector.trim() || project.title === selector.trim();
+}
+
+/**
+ * Returns the project field values used to build the page properties.
+ *
+ * With a primary project, only its fields are used, and none when the issue is not in it.
+ * Otherwise the fields of every project are merged: when several projects have a field of the
+ * same name, the value of the first project that sets it wins.
+ *
+ * @param projects - The projects of the issue
+ * @param primaryProject - The number or title of the primary project, `null` when not set
+ */
+export function getProjectFields(
+  projects: ProjectData[],
+  primaryProject: string | null
+): ProjectFields {
+  if (projects.length === 0) {
+    core.info('Issue is not in any project, project fields are left empty');
+    return {};
+  }
+
+  if (primaryProject) {
+    const primary = projects.find(project =>
+      matchesProject({number: project.number, title: project.name}, primaryProject)
+    );
+    if (!primary) {
+      core.info(
+        `Issue is not in the primary project '${primaryProject}', project fields are left empty`
+      );
+      return {};
+    }
+    return primary.customFields;
+  }
+
+  const fields: ProjectFields = {};
+
+  for (const project of projects) {
+    for (const [name, value] of Object.entries(project.customFields)) {
+      if (fields[name] === undefined || fields[name] === null) fields[name] = value;
+    }
+  }
+
+  if (projects.length > 1) {
+    core.info(
+      `Issue belongs to ${projects.length} projects (${projects.map(p => p.name).join(', ')}), ` +
+        'field values of earlier projects take precedence'
+    );
+  }
+
+  return fields;
+}
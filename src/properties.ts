@@ -2,15 +2,57 @@ import { NotionProjectInfo, userRelationGithubNotionType } from './action';
 import { CustomTypes, SelectColor } from './api-types';
 import { common } from './common';
 
-export type CustomValueMap = {
-  Name: CustomTypes.Title;
-  Status: CustomTypes.Status;
-  Repository: CustomTypes.RichText;
-  Assignee: CustomTypes.People;
-  Labels: CustomTypes.MultiSelect;
-  Issue: CustomTypes.URL;
-  Project: CustomTypes.Relation;
-  'Task group': CustomTypes.RichText;
+export type CustomPropertyValue =
+  | CustomTypes.Title
+  | CustomTypes.RichText
+  | CustomTypes.Number
+  | CustomTypes.Date
+  | CustomTypes.Select
+  | CustomTypes.MultiSelect
+  | CustomTypes.URL
+  | CustomTypes.People
+  | CustomTypes.Relation
+  | CustomTypes.Status
+  | CustomTypes.Checkbox;
+
+/** Notion page properties keyed by property name, as built by the property mapping. */
+export type CustomValueMap = Record<string, CustomPropertyValue>;
+
+/** GitHub Project status values and the Notion status each one is synced to. */
+export const STATUS_MAPPING: Record<string, string> = {
+  'In progress': 'In progress',
+  Done: 'Done',
+  'In review': 'To be checked',
+};
+
+/** The Notion status of issues whose GitHub Project status is not in `STATUS_MAPPING`. */
+export const DEFAULT_NOTION_STATUS = 'Not started';
+
+/**
+ * What a `status` property is set to when the GitHub Project status has no mapping: `default`
+ * uses the default Notion status, `state` the status named after the issue state ('Open',
+ * 'Closed' or 'Deleted') and `none` leaves the property unchanged.
+ */
+export type StatusFallback = 'default' | 'state' | 'none';
+
+/**
+ * Translates GitHub Project statuses to Notion statuses.
+ *
+ * @property statuses - Notion statuses keyed by the GitHub Project status they are synced from.
+ * @property defaultStatus - The Notion status used by the `default` fallback.
+ * @property fallback - What unmapped GitHub Project statuses are synced to.
+ */
+export interface StatusMapping {
+  statuses: Record<string, string>;
+  defaultStatus: string;
+  fallback: StatusFallback;
+}
+
+/** The status mapping used when the `status-*` inputs are not set. */
+export const DEFAULT_STATUS_MAPPING: StatusMapping = {
+  statuses: STATUS_MAPPING,
+  defaultStatus: DEFAULT_NOTION_STATUS,
+  fallback: 'default',
 };
 
 export namespace properties {
@@ -49,21 +91,24 @@ export namespace properties {
     };
   }
 
-  export function date(time: string): CustomTypes.Date {
+  export function date(time: string, end?: string): CustomTypes.Date {
     return {
       type: 'date',
       date: {
         start: time,
+        ...(end ? { end } : {}),
       },
     };
   }
 
-  export function getStatusSelectOption(state: 'open' | 'closed'): CustomTypes.Select {
+  export function getStatusSelectOption(state: 'open' | 'closed' | 'deleted'): CustomTypes.Select {
     switch (state) {
       case 'open':
         return select('Open', 'green');
       case 'closed':
         return select('Closed', 'red');
+      case 'deleted':
+        return select('Deleted', 'gray');
     }
   }
 
@@ -88,6 +133,13 @@ export namespace properties {
     };
   }
 
+  export function checkbox(checked: boolean): CustomTypes.Checkbox {
+    return {
+      type: 'checkbox',
+      checkbox: checked,
+    };
+  }
+
   export function url(url: string): CustomTypes.URL {
     return {
       type: 'url',
@@ -131,32 +183,50 @@ export namespace properties {
     }
   }
 
-  export function status(githubStatus: string): CustomTypes.Status {
-    switch (githubStatus) {
-      case 'In progress':
-        return {
-          status: {
-            name: "In progress"
-          }
-        }
-      case 'Done':
-        return {
-          status: {
-            name: "Done"
-          }
-        }
-      case 'In review':
-        return {
-          status: {
-            name: "To be checked"
-          }
-        }
-      default:
-        return {
-          status: {
-            name: "Not started"
-          }
-        };
-    }
+  /**
+   * Relates a page to the Notion pages of other issues, skipping issues that have no page.
+   */
+  export function issueRelation(issueUrls: string[], issuePages: Record<string, string>): CustomTypes.Relation {
+    return {
+      type: 'relation',
+      relation: issueUrls.filter(url => issuePages[url]).map(url => ({ id: issuePages[url] })),
+    };
+  }
+
+  export function status(
+    githubStatus: string,
+    statusMapping: StatusMapping = DEFAULT_STATUS_MAPPING
+  ): CustomTypes.Status {
+    const mapped = Object.entries(statusMapping.statuses).find(([github]) => github === githubStatus);
+
+    return {
+      status: {
+        name: mapped ? mapped[1] : statusMapping.defaultStatus,
+      },
+    };
+  }
+
+  /**
+   * Returns the Notion status named after the issue state, as `getStatusSelectOption` names it.
+   */
+  export function stateStatus(state: 'open' | 'closed' | 'deleted'): CustomTypes.Status {
+    return {
+      status: {
+        name: getStatusSelectOption(state).select?.name ?? DEFAULT_NOTION_STATUS,
+      },
+    };
+  }
+
+  /**
+   * Inverse of `status`: returns the GitHub Project status for a Notion status, or `null` when
+   * the Notion status is not the target of any mapping.
+   */
+  export function githubStatus(
+    notionStatus: string,
+    statusMapping: StatusMapping = DEFAULT_STATUS_MAPPING
+  ): string | null {
+    const mapped = Object.entries(statusMapping.statuses).find(([, notion]) => notion === notionStatus);
+
+    return mapped ? mapped[0] : null;
   }
-}
\ No newline at end of file
+}
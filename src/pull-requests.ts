@@ -0,0 +1,74 @@
+import type {PullRequestEvent} from '@octokit/webhooks-definitions/schema';
+import type {ProjectData} from './projects';
+import {IssueFields, PropertyMapping} from './mapping';
+
+/**
+ * Where pull requests are synced to, `null` in the options when pull request sync is disabled.
+ *
+ * @property databaseId - The Notion database of the pull request pages.
+ * @property propertyMapping - The property mapping of the pull request pages.
+ */
+export interface PullRequestSyncConfig {
+  databaseId: string;
+  propertyMapping: PropertyMapping;
+}
+
+// https://docs.github.com/en/issues/tracking-your-work-with-issues/linking-a-pull-request-to-an-issue
+const CLOSING_REFERENCE_PATTERN =
+  /\b(?:close[sd]?|fix(?:e[sd])?|resolve[sd]?):?\s+(?:https:\/\/github\.com\/([\w.-]+\/[\w.-]+)\/issues\/|([\w.-]+\/[\w.-]+)?#)(\d+)\b/gi;
+
+/**
+ * Returns the URLs of the issues a pull request body closes with a keyword such as
+ * `closes #12`, `fixes owner/repo#12` or `resolves https://github.com/owner/repo/issues/12`.
+ *
+ * @param body - The pull request body
+ * @param githubRepo - The full name of the pull request repository, for `#12` references
+ */
+export function getClosingIssueUrls(body: string | null, githubRepo: string): string[] {
+  const urls = new Set<string>();
+
+  for (const match of (body ?? '').matchAll(CLOSING_REFERENCE_PATTERN)) {
+    const repo = match[1] ?? match[2] ?? githubRepo;
+    urls.add(`https://github.com/${repo}/issues/${match[3]}`);
+  }
+
+  return [...urls];
+}
+
+/**
+ * Reads the fields of a pull request event payload, including the pull request only ones.
+ */
+export function getPullRequestFields(
+  payload: PullRequestEvent,
+  projects: ProjectData[] = [],
+  projectFields: IssueFields['projectFields'] = {}
+): IssueFields {
+  const pullRequest = payload.pull_request;
+
+  return {
+    title: pullRequest.title,
+    number: pullRequest.number,
+    state: pullRequest.state,
+    url: pullRequest.html_url,
+    repository: payload.repository.name,
+    assignees: pullRequest.assignees.map(assignee => assignee.login),
+    labels: pullRequest.labels.map(label => label.name),
+    milestone: pullRequest.milestone?.title ?? null,
+    author: pullRequest.user?.login ?? null,
+    createdAt: pullRequest.created_at,
+    updatedAt: pullRequest.updated_at,
+    closedAt: pullRequest.closed_at,
+    projects: projects.map(project => project.name),
+    projectFields,
+    draft: pullRequest.draft,
+    merged: pullRequest.merged ?? pullRequest.merged_at !== null,
+    mergedAt: pullRequest.merged_at,
+    reviewers: pullRequest.requested_reviewers.flatMap(reviewer =>
+      'login' in reviewer ? [reviewer.login] : []
+    ),
+    headBranch: pullRequest.head.ref,
+    baseBranch: pullRequest.base.ref,
+    closesIssues: getClosingIssueUrls(pullRequest.body, payload.repository.full_name),
+    nodeId: pullRequest.node_id,
+  };
+}
@@ -0,0 +1,68 @@
+import * as core from '@actions/core';
+import {userRelationGithubNotionType} from './action';
+
+/**
+ * Collects what happened during a run, written to the action outputs once it completes.
+ *
+ * @property unmappedAssignees - GitHub assignees without a Notion user, `null` when the users
+ *                               lookup is disabled.
+ * @property counts - Counters keyed by the name of the action output they are written to.
+ */
+export interface SyncReport {
+  unmappedAssignees: Set<string> | null;
+  counts: Record<string, number>;
+}
+
+interface CreateReportOptions {
+  usersLookupEnabled: boolean;
+}
+
+export function createReport(options: CreateReportOptions): SyncReport {
+  return {
+    unmappedAssignees: options.usersLookupEnabled ? new Set() : null,
+    counts: {},
+  };
+}
+
+/**
+ * Increments the counter written to the given action output.
+ */
+export function incrementCount(report: SyncReport, output: string, by = 1) {
+  report.counts[output] = (report.counts[output] ?? 0) + by;
+}
+
+/**
+ * Records the assignees of an issue that have no relation to a Notion user, and warns about them.
+ *
+ * @param report - The report of the current run
+ * @param issueUrl - The URL of the issue, used in the warning
+ * @param assignees - The GitHub usernames assigned to the issue
+ * @param userRelations - The known GitHub to Notion user relations
+ */
+export function recordUnmappedAssignees(
+  report: SyncReport,
+  issueUrl: string,
+  assignees: string[],
+  userRelations: userRelationGithubNotionType[]
+) {
+  if (!report.unmappedAssignees) return;
+
+  const unmapped = assignees.filter(
+    assignee => !userRelations.some(relation => relation.githubUsername === assignee)
+  );
+  if (unmapped.length === 0) return;
+
+  core.warning(`No Notion user found for assignees of ${issueUrl}: ${unmapped.join(', ')}`);
+  for (const assignee of unmapped) report.unmappedAssignees.add(assignee);
+}
+
+/**
+ * Writes the report to the action outputs.
+ */
+export function writeReportOutputs(report: SyncReport) {
+  core.setOutput('unmapped-assignees', [...(report.unmappedAssignees ?? [])].sort().join(','));
+
+  for (const [output, count] of Object.entries(report.counts)) {
+    core.setOutput(output, count);
+  }
+}
@@ -0,0 +1,56 @@
+/**
+ * A repository, or a pattern matching several repositories of an owner, read from the
+ * `repositories` input.
+ *
+ * @property owner - The user or organization owning the repositories.
+ * @property name - The repository name, where `*` matches any characters.
+ */
+export interface RepositorySelector {
+  owner: string;
+  name: string;
+}
+
+const REPOSITORY_SELECTOR_PATTERN = /^([\w.-]+)\/([\w.*-]+)$/;
+
+/**
+ * Parses the `repositories` input, a comma or newline separated list of `owner/name` entries
+ * where the name may contain `*` wildcards, such as `my-org/*` or `my-org/api-*`.
+ *
+ * @returns The selectors, `null` when the input is empty
+ *
+ * @throws When an entry is not of the `owner/name` form.
+ */
+export function parseRepositorySelectors(input: string): RepositorySelector[] | null {
+  const entries = input
+    .split(/[,\n]/)
+    .map(entry => entry.trim())
+    .filter(entry => entry);
+  if (entries.length === 0) return null;
+
+  return entries.map(entry => {
+    const match = REPOSITORY_SELECTOR_PATTERN.exec(entry);
+    if (!match) {
+      throw new Error(`Invalid repository "${entry}", expected owner/name or owner/pattern-*`);
+    }
+    return {owner: match[1], name: match[2]};
+  });
+}
+
+/**
+ * Whether the selector names several repositories through `*` wildcards.
+ */
+export function isRepositoryPattern(selector: RepositorySelector): boolean {
+  return selector.name.includes('*');
+}
+
+/**
+ * Whether a repository name matches the name of a selector, ignoring case like GitHub does.
+ */
+export function matchesRepositorySelector(name: string, selector: RepositorySelector): boolean {
+  const pattern = selector.name
+    .split('*')
+    .map(part => part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+
+  return new RegExp(`^${pattern}$`, 'i').test(name);
+}
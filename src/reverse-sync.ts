@@ -0,0 +1,302 @@
+import {Client} from '@notionhq/client/build/src';
+import {PageObjectResponse, QueryDatabaseResponse} from '@notionhq/client/build/src/api-endpoints';
+import * as core from '@actions/core';
+import {graphqlWithAuth} from './action';
+import {getIssueUrlProperty, PROJECT_FIELD_SOURCE_PREFIX, PropertyMapping} from './mapping';
+import {matchesProject} from './projects';
+import {CustomValueMap, properties, StatusMapping} from './properties';
+import {incrementCount, SyncReport} from './report';
+import {IssuePage} from './sync';
+
+interface ProjectStatusItem {
+  itemId: string;
+  projectId: string;
+  projectNumber: number;
+  projectTitle: string;
+  fieldId: string;
+  options: Array<{id: string; name: string}>;
+  currentValue: string | null;
+  updatedAt: string | null;
+}
+
+interface IssueProjectItemsResponse {
+  resource: {
+    projectItems?: {
+      nodes: Array<{
+        id: string;
+        project: {
+          id: string;
+          number: number;
+          title: string;
+          field: {id: string; options?: Array<{id: string; name: string}>} | null;
+        };
+        fieldValueByName: {name?: string; updatedAt?: string} | null;
+      }>;
+    };
+  } | null;
+}
+
+/** Finds the `status` entry synced from a project field, which the reverse sync writes back. */
+function getStatusEntry(propertyMapping: PropertyMapping) {
+  return propertyMapping.find(
+    entry => entry.type === 'status' && entry.source?.startsWith(PROJECT_FIELD_SOURCE_PREFIX)
+  );
+}
+
+/**
+ * Fetches the items of an issue in every GitHub Project having the given single select field,
+ * or only in the primary project when there is one.
+ */
+async function getProjectStatusItems(
+  issueUrl: string,
+  fieldName: string,
+  primaryProject: string | null
+): Promise<ProjectStatusItem[]> {
+  const response = (await graphqlWithAuth(
+    `
+    query($url: URI!, $field: String!) {
+      resource(url: $url) {
+        ... on Issue {
+          projectItems(first: 20) {
+            nodes {
+              id
+              project {
+                id
+                number
+                title
+                field(name: $field) {
+                  ... on ProjectV2SingleSelectField {
+                    id
+                    options {
+                      id
+                      name
+                    }
+                  }
+                }
+              }
+              fieldValueByName(name: $field) {
+                ... on ProjectV2ItemFieldSingleSelectValue {
+                  name
+                  updatedAt
+                }
+              }
+            }
+          }
+        }
+      }
+    }
+    `,
+    {url: issueUrl, field: fieldName}
+  )) as IssueProjectItemsResponse;
+
+  const items: ProjectStatusItem[] = [];
+  for (const node of response.resource?.projectItems?.nodes ?? []) {
+    if (!node.project.field?.options) continue;
+    if (primaryProject && !matchesProject(node.project, primaryProject)) continue;
+
+    items.push({
+      itemId: node.id,
+      projectId: node.project.id,
+      projectNumber: node.project.number,
+      projectTitle: node.project.title,
+      fieldId: node.project.field.id,
+      options: node.project.field.options,
+      currentValue: node.fieldValueByName?.name ?? null,
+      updatedAt: node.fieldValueByName?.updatedAt ?? null,
+    });
+  }
+
+  return items;
+}
+
+async function updateProjectStatus(item: ProjectStatusItem, optionId: string) {
+  await graphqlWithAuth(
+    `
+    mutation($projectId: ID!, $itemId: ID!, $fieldId: ID!, $optionId: String!) {
+      updateProjectV2ItemFieldValue(
+        input: {
+          projectId: $projectId
+          itemId: $itemId
+          fieldId: $fieldId
+          value: {singleSelectOptionId: $optionId}
+        }
+      ) {
+        projectV2Item {
+          id
+        }
+      }
+    }
+    `,
+    {
+      projectId: item.projectId,
+      itemId: item.itemId,
+      fieldId: item.fieldId,
+      optionId,
+    }
+  );
+}
+
+async function getPagesWithIssue(
+  notion: Client,
+  databaseId: string,
+  issueUrlProperty: string
+): Promise<PageObjectResponse[]> {
+  const pages: PageObjectResponse[] = [];
+  let cursor: string | undefined = undefined;
+  let hasMore = true;
+
+  while (hasMore) {
+    const response: QueryDatabaseResponse = await notion.databases.query({
+      database_id: databaseId,
+      start_cursor: cursor,
+      filter: {
+        property: issueUrlProperty,
+        url: {is_not_empty: true},
+      },
+    });
+
+    for (const page of response.results) {
+      if (page.object === 'page' && 'properties' in page) pages.push(page);
+    }
+
+    hasMore = response.has_more;
+    cursor = response.next_cursor ?? undefined;
+  }
+
+  return pages;
+}
+
+interface ReverseSyncOptions {
+  notion: {
+    client: Client;
+    databaseId: string;
+    propertyMapping: PropertyMapping;
+    statusMapping: StatusMapping;
+  };
+  primaryProject: string | null;
+  report: SyncReport;
+}
+
+/**
+ * Pushes the Notion status of every synced page back to the GitHub Project status field.
+ *
+ * The Notion status is translated with the inverse of `properties.status`. An item is only
+ * updated when its GitHub status differs and was last changed before the Notion page was last
+ * edited; otherwise the GitHub value is newer and the item is reported as a conflict. With a
+ * primary project, only the issue's item in that project is updated.
+ */
+export async function reverseSyncStatuses(options: ReverseSyncOptions) {
+  const {notion, report} = options;
+
+  const statusEntry = getStatusEntry(notion.propertyMapping);
+  if (!statusEntry?.source) {
+    throw new Error(
+      'Reverse sync requires a "status" property mapping entry with a project.<field name> source'
+    );
+  }
+
+  const fieldName = statusEntry.source.slice(PROJECT_FIELD_SOURCE_PREFIX.length);
+  const issueUrlProperty = getIssueUrlProperty(notion.propertyMapping);
+
+  core.info(`Reverse syncing Notion '${statusEntry.property}' to GitHub Project '${fieldName}'`);
+
+  const pages = await getPagesWithIssue(notion.client, notion.databaseId, issueUrlProperty);
+
+  for (const page of pages) {
+    const urlProperty = page.properties[issueUrlProperty];
+    const statusProperty = page.properties[statusEntry.property];
+    const issueUrl = urlProperty?.type === 'url' ? urlProperty.url : null;
+    const notionStatus = statusProperty?.type === 'status' ? statusProperty.status?.name : null;
+    if (!issueUrl || !notionStatus) continue;
+
+    const githubStatus = properties.githubStatus(notionStatus, notion.statusMapping);
+    if (!githubStatus) {
+      core.info(`Notion status '${notionStatus}' of ${issueUrl} has no GitHub status, skipping`);
+      continue;
+    }
+
+    const items = await getProjectStatusItems(issueUrl, fieldName, options.primaryProject);
+
+    for (const item of items) {
+      // Several GitHub statuses can sync to the same Notion status, any of them is up to date
+      const syncedStatus =
+        item.currentValue !== null
+          ? properties.status(item.currentValue, notion.statusMapping).status.name
+          : null;
+      if (item.currentValue === githubStatus || syncedStatus === notionStatus) {
+        incrementCount(report, 'reverse-unchanged');
+        continue;
+      }
+
+      if (item.updatedAt && new Date(item.updatedAt) > new Date(page.last_edited_time)) {
+        core.warning(
+          `Conflict for ${issueUrl} in project '${item.projectTitle}': GitHub status ` +
+            `'${item.currentValue}' changed after the Notion page, keeping it`
+        );
+        incrementCount(report, 'reverse-conflicts');
+        continue;
+      }
+
+      const option = item.options.find(option => option.name === githubStatus);
+      if (!option) {
+        core.warning(
+          `Project '${item.projectTitle}' has no '${fieldName}' option named '${githubStatus}'`
+        );
+        continue;
+      }
+
+      core.info(
+        `Updating ${issueUrl} in project '${item.projectTitle}': ` +
+          `'${item.currentValue}' -> '${githubStatus}'`
+      );
+      await updateProjectStatus(item, option.id);
+      incrementCount(report, 'reverse-updated');
+    }
+  }
+}
+
+interface KeepNotionStatusOptions {
+  propertyMapping: PropertyMapping;
+  primaryProject: string | null;
+  page: IssuePage;
+  issueUrl: string;
+}
+
+/**
+ * Leaves the status out of the properties sent to the page of an issue when the page was edited
+ * after the GitHub status last changed, the rule the reverse sync follows the other way around.
+ * A status set in Notion is then kept until the reverse sync pushes it to GitHub, instead of
+ * being overwritten by the next event of the issue.
+ *
+ * @param changed - The properties about to be sent to the page
+ * @returns The properties to send
+ */
+export async function keepNewerNotionStatus(
+  changed: CustomValueMap,
+  options: KeepNotionStatusOptions
+): Promise<CustomValueMap> {
+  const {page, issueUrl} = options;
+  const statusEntry = getStatusEntry(options.propertyMapping);
+  if (!statusEntry?.source || !(statusEntry.property in changed) || !page.lastEditedTime) {
+    return changed;
+  }
+
+  const fieldName = statusEntry.source.slice(PROJECT_FIELD_SOURCE_PREFIX.length);
+  const items = await getProjectStatusItems(issueUrl, fieldName, options.primaryProject);
+  // Issues without a GitHub status get theirs from the status fallback, which always applies
+  const lastEdited = new Date(page.lastEditedTime);
+  if (
+    items.length === 0 ||
+    items.some(item => !item.updatedAt || new Date(item.updatedAt) >= lastEdited)
+  ) {
+    return changed;
+  }
+
+  core.info(
+    `Keeping '${statusEntry.property}' of page ${page.pageId}, edited in Notion after the ` +
+      `GitHub status of ${issueUrl} last changed`
+  );
+  const kept = {...changed};
+  delete kept[statusEntry.property];
+  return kept;
+}
@@ -0,0 +1,216 @@
+import * as core from '@actions/core';
+import {isReadRequest, PlannedApi} from './dry-run';
+import {incrementCount, SyncReport} from './report';
+
+/**
+ * @property name - The API name used in logs.
+ * @property requestsPerSecond - The sustained request rate, also the size of a burst.
+ * @property maxConcurrent - The number of requests in flight at once.
+ * @property maxRetries - How many times a rate limited or failed request is retried.
+ * @property timeoutMs - The timeout of a single attempt.
+ */
+export interface SchedulerOptions {
+  name: PlannedApi;
+  requestsPerSecond: number;
+  maxConcurrent: number;
+  maxRetries: number;
+  timeoutMs: number;
+}
+
+export interface SchedulerStats {
+  requests: number;
+  retried: number;
+  failed: number;
+}
+
+/**
+ * A request queue shared by every call to one API. Its `fetch` is handed to the API client, so
+ * all requests wait for a free slot and a rate limit token, and are retried with exponential
+ * backoff on 429 responses, honoring `Retry-After`. Reads, including the queries sent with a POST,
+ * are also retried on 5xx responses, timeouts and network errors.
+ */
+export interface RequestScheduler {
+  name: PlannedApi;
+  fetch: typeof fetch;
+  stats: SchedulerStats;
+  configure(options: Partial<SchedulerOptions>): void;
+}
+
+const BASE_RETRY_DELAY_MS = 1000;
+const MAX_RETRY_DELAY_MS = 60000;
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+function isRateLimited(response: Response): boolean {
+  if (response.status === 429) return true;
+
+  // GitHub answers secondary rate limits with a 403
+  return (
+    response.status === 403 &&
+    (response.headers.has('retry-after') || response.headers.get('x-ratelimit-remaining') === '0')
+  );
+}
+
+function isRetryable(response: Response, idempotent: boolean): boolean {
+  return isRateLimited(response) || (idempotent && response.status >= 500);
+}
+
+/**
+ * Returns how long to wait before retrying, from the rate limit headers of the response if it
+ * has any, else from the attempt number.
+ */
+export function getRetryDelay(response: Response | undefined, attempt: number): number {
+  const retryAfter = response?.headers.get('retry-after');
+  if (retryAfter) {
+    const seconds = Number(retryAfter);
+    const ms = isNaN(seconds) ? new Date(retryAfter).getTime() - Date.now() : seconds * 1000;
+    if (!isNaN(ms)) return Math.min(Math.max(ms, 0), MAX_RETRY_DELAY_MS);
+  }
+
+  const reset = response?.headers.get('x-ratelimit-reset');
+  if (reset && response?.headers.get('x-ratelimit-remaining') === '0') {
+    const ms = Number(reset) * 1000 - Date.now();
+    if (!isNaN(ms)) return Math.min(Math.max(ms, 0), MAX_RETRY_DELAY_MS);
+  }
+
+  const backoff = BASE_RETRY_DELAY_MS * 2 ** attempt;
+  return Math.min(backoff + Math.random() * BASE_RETRY_DELAY_MS, MAX_RETRY_DELAY_MS);
+}
+
+/**
+ * @param send - The `fetch` the scheduled requests are sent with.
+ */
+export function createScheduler(
+  initialOptions: SchedulerOptions,
+  send: typeof fetch = (input, init) => fetch(input, init)
+): RequestScheduler {
+  const options = {...initialOptions};
+  const stats: SchedulerStats = {requests: 0, retried: 0, failed: 0};
+
+  let tokens = options.requestsPerSecond;
+  let lastRefill = Date.now();
+  let active = 0;
+  const waiting: Array<() => void> = [];
+
+  function refill() {
+    const now = Date.now();
+    tokens = Math.min(
+      options.requestsPerSecond,
+      tokens + ((now - lastRefill) / 1000) * options.requestsPerSecond
+    );
+    lastRefill = now;
+  }
+
+  async function acquire() {
+    if (active < options.maxConcurrent) {
+      active++;
+    } else {
+      // The slot is handed over by `release`, so no other request can take it in between
+      await new Promise<void>(resolve => waiting.push(resolve));
+    }
+
+    refill();
+    while (tokens < 1) {
+      await sleep(((1 - tokens) / options.requestsPerSecond) * 1000);
+      refill();
+    }
+    tokens--;
+  }
+
+  function release() {
+    const next = waiting.shift();
+    if (next) next();
+    else active--;
+  }
+
+  async function scheduledFetch(input: Parameters<typeof fetch>[0], init?: RequestInit) {
+    stats.requests++;
+    // A write may have been applied before it failed or timed out, sending it again could repeat
+    // it, such as creating a page twice. Rate limited requests were not applied.
+    const idempotent = isReadRequest(options.name, input, init);
+
+    for (let attempt = 0; ; attempt++) {
+      let response: Response | undefined;
+      let error: unknown;
+
+      await acquire();
+      try {
+        response = await send(input, {
+          ...init,
+          signal: init?.signal ?? AbortSignal.timeout(options.timeoutMs),
+        });
+      } catch (e) {
+        error = e;
+      } finally {
+        release();
+      }
+
+      if (response && !isRetryable(response, idempotent)) {
+        if (!response.ok) stats.failed++;
+        return response;
+      }
+
+      if (attempt >= options.maxRetries || (!response && !idempotent)) {
+        stats.failed++;
+        if (response) return response;
+        throw error;
+      }
+
+      const delay = getRetryDelay(response, attempt);
+      const reason = response
+        ? `status ${response.status}`
+        : error instanceof Error
+          ? error.message
+          : `${error}`;
+      core.warning(
+        `${options.name} request failed with ${reason}, retrying in ${Math.round(delay)}ms ` +
+          `(${attempt + 1}/${options.maxRetries})`
+      );
+      stats.retried++;
+      await sleep(delay);
+    }
+  }
+
+  return {
+    name: options.name,
+    fetch: scheduledFetch,
+    stats,
+    configure(changes) {
+      for (const [key, value] of Object.entries(changes)) {
+        if (value !== undefined) Object.assign(options, {[key]: value});
+      }
+    },
+  };
+}
+
+// https://developers.notion.com/reference/request-limits
+export const notionScheduler = createScheduler({
+  name: 'Notion',
+  requestsPerSecond: 3,
+  maxConcurrent: 3,
+  maxRetries: 5,
+  timeoutMs: 60000,
+});
+
+// https://docs.github.com/en/rest/using-the-rest-api/rate-limits-for-the-rest-api#about-secondary-rate-limits
+export const githubScheduler = createScheduler({
+  name: 'GitHub',
+  requestsPerSecond: 5,
+  maxConcurrent: 2,
+  maxRetries: 5,
+  timeoutMs: 60000,
+});
+
+/**
+ * Logs how many requests were retried or failed, and adds the totals to the report.
+ */
+export function recordSchedulerStats(report: SyncReport) {
+  for (const scheduler of [notionScheduler, githubScheduler]) {
+    const {requests, retried, failed} = scheduler.stats;
+    core.info(`${scheduler.name} requests: ${requests}, retried: ${retried}, failed: ${failed}`);
+    incrementCount(report, 'requests-retried', retried);
+    incrementCount(report, 'requests-failed', failed);
+  }
+}
@@ -1,50 +1,204 @@
-import { Client } from '@notionhq/client/build/src';
+import { Client, isFullPage } from '@notionhq/client/build/src';
 import * as core from '@actions/core';
-import { CustomValueMap, properties } from './properties';
-import { getNotionRelations, getProject, graphqlWithAuth, NotionRelationsInterface } from './action';
+import { CustomValueMap, properties, StatusMapping } from './properties';
+import { buildProperties, getNodeIdProperty, PropertyMapping } from './mapping';
+import { incrementCount, recordUnmappedAssignees, SyncReport } from './report';
+import { createPageWithBlocks, getBodyChildrenBlocks, listChildBlocks } from './blocks';
+import { getGitHubIssueComments, upsertCommentBlock } from './comments';
+import { getChangedProperties, PageProperties } from './compare';
+import {
+  getNotionRelations,
+  graphqlWithAuth,
+  NotionRelationsConfig,
+  NotionRelationsInterface,
+} from './action';
 import { QueryDatabaseResponse } from '@notionhq/client/build/src/api-endpoints';
 import { CustomTypes } from './api-types';
+import { getIssueProjects, getProjectFields, PROJECT_ITEMS_FRAGMENT, ProjectItemConnection } from './projects';
+import { isRepositoryPattern, matchesRepositorySelector, RepositorySelector } from './repositories';
+import { keepNewerNotionStatus } from './reverse-sync';
 
 type PageIdAndIssueUrl = {
   pageId: string;
-  issueUrl: string;
+  issueUrl: string | null;
+  nodeId: string | null;
+  properties: PageProperties;
+  lastEditedTime: string;
 };
 
+/**
+ * The Notion page of an issue. `properties` is `null` for pages created during this run, and
+ * `lastEditedTime` is only known for pages read from Notion. `nodeId` is the issue node ID stored
+ * on the page, `null` for pages that only have a URL.
+ */
+export interface IssuePage {
+  pageId: string;
+  nodeId: string | null;
+  properties: PageProperties | null;
+  lastEditedTime?: string;
+}
+
+/**
+ * Identifies an issue: by its node ID, which survives transfers and repository renames, and by
+ * its URL for pages that do not store the node ID yet. `nodeId` is `null` when it is unknown.
+ */
+export interface IssueKey {
+  url: string;
+  nodeId: string | null;
+}
+
+/**
+ * Maps the pages of the database by issue URL and, when the property mapping stores it, by
+ * issue node ID. Look pages up with `findIssuePage`.
+ *
+ * @param nodeIdProperty - The property holding the issue node ID, `null` when not mapped
+ */
 export async function createIssueMapping(
   notion: Client,
-  databaseId: string
-): Promise<Map<string, string>> {
-  const issuePageIds = new Map<string, string>();
-  const issuesAlreadyInNotion: {
-    pageId: string;
-    issueUrl: string
-  }[] = await getIssuesAlreadyInNotion(notion, databaseId);
-
-  for (const { pageId, issueUrl } of issuesAlreadyInNotion) {
-    core.info(`Mapping issue ${issueUrl} to page ID ${pageId}`);
-    issuePageIds.set(issueUrl, pageId);
+  databaseId: string,
+  issueUrlProperty: string,
+  nodeIdProperty: string | null = null
+): Promise<Map<string, IssuePage>> {
+  const issuePages = new Map<string, IssuePage>();
+  const issuesAlreadyInNotion: PageIdAndIssueUrl[] = await getIssuesAlreadyInNotion(
+    notion,
+    databaseId,
+    issueUrlProperty,
+    nodeIdProperty
+  );
+
+  for (const { pageId, issueUrl, nodeId, properties, lastEditedTime } of issuesAlreadyInNotion) {
+    core.info(`Mapping issue ${nodeId ?? issueUrl} to page ID ${pageId}`);
+    if (issueUrl) issuePages.set(issueUrl, { pageId, nodeId, properties, lastEditedTime });
+    if (nodeId) issuePages.set(nodeId, { pageId, nodeId, properties, lastEditedTime });
   }
 
-  return issuePageIds;
+  return issuePages;
 }
 
-export async function syncNotionDBWithGitHub(
-  issuePageIds: Map<string, string>,
+/**
+ * Finds the page of an issue by node ID, falling back to its URL. A page found by URL that
+ * stores another node ID belongs to another issue, which had the URL before a transfer or a
+ * repository rename, so it does not match.
+ */
+export function findIssuePage(issuePages: Map<string, IssuePage>, issue: IssueKey): IssuePage | undefined {
+  const page = (issue.nodeId ? issuePages.get(issue.nodeId) : undefined) ?? issuePages.get(issue.url);
+  if (page?.nodeId && issue.nodeId && page.nodeId !== issue.nodeId) return undefined;
+  return page;
+}
+
+/**
+ * Adds the page of an issue to the mapping, under its URL and its node ID.
+ */
+export function setIssuePage(issuePages: Map<string, IssuePage>, issue: IssueKey, page: IssuePage) {
+  issuePages.set(issue.url, page);
+  if (issue.nodeId) issuePages.set(issue.nodeId, page);
+}
+
+/**
+ * Stores the node ID of an issue on a page found by its URL, so that it is found by node ID
+ * once the URL changes. The properties of the page are refreshed from the response.
+ */
+export async function storePageNodeId(
   notion: Client,
-  databaseId: string,
-  githubRepo: string
+  page: IssuePage,
+  nodeIdProperty: string,
+  issue: IssueKey
 ) {
-  const issues = await getGitHubIssues(githubRepo);
+  if (!issue.nodeId || page.nodeId) return;
 
-  const issuesNotInNotion = getIssuesNotInNotion(issuePageIds, issues);
+  core.info(`Storing node ID ${issue.nodeId} of issue ${issue.url} on page ${page.pageId}`);
+  const response = await notion.pages.update({
+    page_id: page.pageId,
+    properties: { [nodeIdProperty]: properties.text(issue.nodeId) },
+  });
+  page.nodeId = issue.nodeId;
 
-  await createTasks(notion, databaseId, issuesNotInNotion);
+  // The properties read before would send the node ID again as a changed property. The last edit
+  // time is left as it was, storing the node ID is no edit made in Notion.
+  if (page.properties && isFullPage(response)) page.properties = response.properties;
+}
+
+interface SyncOptions {
+  notion: {
+    client: Client;
+    databaseId: string;
+    propertyMapping: PropertyMapping;
+    statusMapping: StatusMapping;
+    relations: NotionRelationsConfig;
+  };
+  githubRepo: string;
+  issuePages: Map<string, IssuePage>;
+  filters: IssueFilters;
+  primaryProject: string | null;
+  syncComments: boolean;
+  reconcile: boolean;
+  report: SyncReport;
+}
+
+export async function syncNotionDBWithGitHub(options: SyncOptions) {
+  const { notion, githubRepo, issuePages, report } = options;
+
+  const issues = await getGitHubIssues(githubRepo, options.filters);
+
+  const issuesNotInNotion = issues.filter(issue => !findIssuePage(issuePages, getIssueKey(issue)));
+  const issuesInNotion = issues.filter(issue => findIssuePage(issuePages, getIssueKey(issue)));
+
+  await createTasks(notion, issuesNotInNotion, issuePages, options.primaryProject, report);
+
+  const nodeIdProperty = getNodeIdProperty(notion.propertyMapping);
+  if (options.reconcile) {
+    await updateTasks(notion, issuesInNotion, issuePages, options.primaryProject, report);
+  } else if (nodeIdProperty) {
+    // Reconciliation stores the node IDs of pages found by URL along with the other properties
+    for (const issue of issuesInNotion) {
+      const page = findIssuePage(issuePages, getIssueKey(issue));
+      if (page) await storePageNodeId(notion.client, page, nodeIdProperty, getIssueKey(issue));
+    }
+  }
+
+  if (options.syncComments) {
+    await syncComments(notion.client, githubRepo, issues, issuePages, report);
+  }
+}
+
+/**
+ * Imports the comments of every issue into its page, leaving comments that were not edited
+ * since they were last synced alone.
+ */
+async function syncComments(
+  notion: Client,
+  githubRepo: string,
+  issues: GitHubIssue[],
+  issuePages: Map<string, IssuePage>,
+  report: SyncReport
+) {
+  core.info('Syncing Github Issue comments to Notion...');
+
+  for (const issue of issues) {
+    const pageId = findIssuePage(issuePages, getIssueKey(issue))?.pageId;
+    if (!pageId) continue;
+
+    const comments = await getGitHubIssueComments(githubRepo, issue.number);
+    if (comments.length === 0) continue;
+
+    const children = await listChildBlocks(notion, pageId);
+    for (const comment of comments) {
+      const result = await upsertCommentBlock(notion, pageId, comment, {
+        skipUnchanged: true,
+        children,
+      });
+      if (result !== 'unchanged') incrementCount(report, `comments-${result}`);
+    }
+  }
 }
 
 // Notion SDK for JS: https://developers.notion.com/reference/post-database-query
 async function getIssuesAlreadyInNotion(
   notion: Client,
-  databaseId: string
+  databaseId: string,
+  issueUrlProperty: string,
+  nodeIdProperty: string | null
 ): Promise<PageIdAndIssueUrl[]> {
   core.info('Checking for issues already in the database...');
 
@@ -68,13 +222,19 @@ async function getIssuesAlreadyInNotion(
   const pageIdAndIssueUrlList: PageIdAndIssueUrl[] = [];
 
   pages.forEach(page => {
-    if ('properties' in page) {
-      const issueProp = page.properties['Issue'] as CustomTypes.URL | undefined;
+    if (page.object === 'page' && 'properties' in page) {
+      const issueProp = page.properties[issueUrlProperty] as CustomTypes.URL | undefined;
       const issueUrl = issueProp && 'url' in issueProp ? issueProp.url : null;
-      if (typeof issueUrl === 'string' && issueUrl)
+      const nodeIdProp = nodeIdProperty ? page.properties[nodeIdProperty] : undefined;
+      const nodeId =
+        nodeIdProp?.type === 'rich_text' ? nodeIdProp.rich_text.map(text => text.plain_text).join('') : null;
+      if (issueUrl || nodeId)
         pageIdAndIssueUrlList.push({
           pageId: page.id,
-          issueUrl
+          issueUrl: issueUrl || null,
+          nodeId: nodeId || null,
+          properties: page.properties,
+          lastEditedTime: page.last_edited_time,
         });
     }
   });
@@ -90,12 +250,14 @@ interface GitHubIssue {
   milestone: { title: string } | null;
   createdAt: string;
   updatedAt: string;
+  closedAt: string | null;
   body: string | null;
   repository: { url: string };
   user: { login: string };
   html_url: string;
   assignees: { nodes: { login: string }[] };
   labels: { nodes: { name: string }[] };
+  projectItems: ProjectItemConnection;
 }
 
 interface IssuesResponse {
@@ -107,110 +269,346 @@ interface IssuesResponse {
   };
 }
 
-async function getGitHubIssues(githubRepo: string) {
+/**
+ * Limits which issues the bulk sync reads from GitHub.
+ *
+ * @property state - The issue states to include.
+ * @property labels - Include issues having any of these labels.
+ * @property milestone - A milestone number or title, `*` for any milestone or `none` for none.
+ * @property assignee - A GitHub username, or `*` for issues assigned to anyone.
+ * @property createdSince - Include issues created at or after this date.
+ * @property updatedSince - Include issues updated at or after this date.
+ */
+export interface IssueFilters {
+  state: 'open' | 'closed' | 'all';
+  labels: string[];
+  milestone: string | null;
+  assignee: string | null;
+  createdSince: Date | null;
+  updatedSince: Date | null;
+}
+
+export const DEFAULT_ISSUE_FILTERS: IssueFilters = {
+  state: 'open',
+  labels: [],
+  milestone: null,
+  assignee: null,
+  createdSince: null,
+  updatedSince: null,
+};
+
+// Milestone filters GitHub understands, anything else is a milestone title
+const MILESTONE_NUMBER_PATTERN = /^(\d+|\*|none)$/;
+
+const ISSUE_STATES: Record<IssueFilters['state'], string[]> = {
+  open: ['OPEN'],
+  closed: ['CLOSED'],
+  all: ['OPEN', 'CLOSED'],
+};
+
+/**
+ * Builds the GraphQL `IssueFilters` input. Milestone titles and the creation date cannot be
+ * filtered by GitHub and are applied by `matchesClientSideFilters` instead.
+ */
+export function getGraphQLIssueFilters(filters: IssueFilters) {
+  const milestoneNumber =
+    filters.milestone && MILESTONE_NUMBER_PATTERN.test(filters.milestone) ? filters.milestone : undefined;
+
+  return {
+    states: ISSUE_STATES[filters.state],
+    labels: filters.labels.length > 0 ? filters.labels : undefined,
+    assignee: filters.assignee ?? undefined,
+    milestoneNumber,
+    since: filters.updatedSince?.toISOString(),
+  };
+}
+
+/**
+ * Whether an issue matches the filters GitHub cannot apply: a milestone title and the creation
+ * date.
+ */
+export function matchesClientSideFilters(
+  issue: Pick<GitHubIssue, 'createdAt' | 'milestone'>,
+  filters: IssueFilters
+): boolean {
+  if (filters.createdSince && new Date(issue.createdAt) < filters.createdSince) return false;
+  if (filters.milestone && !MILESTONE_NUMBER_PATTERN.test(filters.milestone)) {
+    return issue.milestone?.title === filters.milestone;
+  }
+  return true;
+}
+
+/**
+ * Queries a page of the issues of a repository, with their project items so that their projects
+ * are not fetched one issue at a time.
+ */
+export const GITHUB_ISSUES_QUERY = `
+  query($owner: String!, $repo: String!, $cursor: String, $filterBy: IssueFilters) {
+    repository(owner: $owner, name: $repo) {
+      issues(first: 50, after: $cursor, filterBy: $filterBy) {
+        pageInfo {
+          endCursor
+          hasNextPage
+        }
+        nodes {
+          number
+          title
+          state
+          id
+          milestone { title }
+          createdAt
+          updatedAt
+          closedAt
+          body
+          repository { url }
+          user: author { login }
+          html_url: url
+          assignees(first: 30) {
+            nodes { login }
+          }
+          labels(first: 30) {
+            nodes { name }
+          }
+          projectItems(first: 10, includeArchived: false) {
+            ...projectItems
+          }
+        }
+      }
+    }
+  }
+  ${PROJECT_ITEMS_FRAGMENT}
+`;
+
+async function getGitHubIssues(githubRepo: string, filters: IssueFilters) {
   core.info('Finding Github Issues...');
 
   const [owner, repo] = githubRepo.split('/');
-  let issues: any[] = [];
+  const issues: GitHubIssue[] = [];
   let hasNextPage = true;
   let cursor: string | undefined = undefined;
 
   while (hasNextPage) {
     const issuesResponse = await graphqlWithAuth(
+      GITHUB_ISSUES_QUERY,
+      { owner, repo, cursor, filterBy: getGraphQLIssueFilters(filters) }
+    ) as IssuesResponse;
+
+    const pageIssues = issuesResponse.repository.issues.nodes;
+    issues.push(...pageIssues.filter(issue => matchesClientSideFilters(issue, filters)));
+
+    hasNextPage = issuesResponse.repository.issues.pageInfo.hasNextPage;
+    cursor = issuesResponse.repository.issues.pageInfo.endCursor;
+  }
+
+  core.info(`Found ${issues.length} Github Issues matching the filters`);
+
+  return issues;
+}
+
+interface OwnerRepository {
+  name: string;
+  nameWithOwner: string;
+  isArchived: boolean;
+}
+
+interface OwnerRepositoriesResponse {
+  repositoryOwner: {
+    repositories: {
+      pageInfo: { endCursor: string; hasNextPage: boolean };
+      nodes: OwnerRepository[];
+    };
+  } | null;
+}
+
+async function getOwnerRepositories(owner: string) {
+  const repositories: OwnerRepository[] = [];
+  let hasNextPage = true;
+  let cursor: string | undefined = undefined;
+
+  while (hasNextPage) {
+    const response = await graphqlWithAuth(
       `
-      query($owner: String!, $repo: String!, $cursor: String) {
-        repository(owner: $owner, name: $repo) {
-          issues(first: 100, after: $cursor, states: OPEN) {
+      query($owner: String!, $cursor: String) {
+        repositoryOwner(login: $owner) {
+          repositories(first: 100, after: $cursor) {
             pageInfo {
               endCursor
               hasNextPage
             }
             nodes {
-              number
-              title
-              state
-              id
-              milestone { title }
-              createdAt
-              updatedAt
-              body
-              repository { url }
-              user: author { login }
-              html_url: url
-              assignees(first: 30) {
-                nodes { login }
-              }
-              labels(first: 30) {
-                nodes { name }
-              }
+              name
+              nameWithOwner
+              isArchived
             }
           }
         }
       }
       `,
-      { owner, repo, cursor }
-    ) as IssuesResponse;
+      { owner, cursor }
+    ) as OwnerRepositoriesResponse;
 
-    const pageIssues = issuesResponse.repository.issues.nodes;
-    issues.push(...pageIssues);
+    if (!response.repositoryOwner) {
+      throw new Error(`Unable to find the GitHub user or organization ${owner}`);
+    }
 
-    hasNextPage = issuesResponse.repository.issues.pageInfo.hasNextPage;
-    cursor = issuesResponse.repository.issues.pageInfo.endCursor;
+    repositories.push(...response.repositoryOwner.repositories.nodes);
+    hasNextPage = response.repositoryOwner.repositories.pageInfo.hasNextPage;
+    cursor = response.repositoryOwner.repositories.pageInfo.endCursor;
   }
 
-  return issues;
+  return repositories;
 }
 
-function getIssuesNotInNotion(issuePageIds: Map<string, string>, issues: GitHubIssue[]): GitHubIssue[] {
-  const issuesNotInNotion = [];
-  for (const issue of issues) {
-    if (!issuePageIds.has(issue.html_url)) {
-      issuesNotInNotion.push(issue);
+/**
+ * Resolves the `repositories` input to repository full names, listing the repositories of an
+ * owner for selectors with wildcards. Archived repositories only match by their exact name.
+ */
+export async function resolveRepositories(selectors: RepositorySelector[]): Promise<string[]> {
+  const repositories = new Set<string>();
+
+  for (const selector of selectors) {
+    if (!isRepositoryPattern(selector)) {
+      repositories.add(`${selector.owner}/${selector.name}`);
+      continue;
+    }
+
+    const matching = (await getOwnerRepositories(selector.owner)).filter(
+      repository => !repository.isArchived && matchesRepositorySelector(repository.name, selector)
+    );
+    if (matching.length === 0) {
+      core.warning(`No repository matches ${selector.owner}/${selector.name}`);
     }
+    for (const repository of matching) repositories.add(repository.nameWithOwner);
   }
-  return issuesNotInNotion;
+
+  core.info(`Syncing issues of ${[...repositories].join(', ')}`);
+
+  return [...repositories];
+}
+
+function getIssueKey(issue: GitHubIssue): IssueKey {
+  return { url: issue.html_url, nodeId: issue.id };
 }
 
 // Notion SDK for JS: https://developers.notion.com/reference/post-page
 async function createTasks(
-  notion: Client,
-  databaseId: string,
-  issuesNotInNotion: GitHubIssue[]
+  notion: SyncOptions['notion'],
+  issuesNotInNotion: GitHubIssue[],
+  issuePages: Map<string, IssuePage>,
+  primaryProject: string | null,
+  report: SyncReport
 ): Promise<void> {
   core.info('Adding Github Issues to Notion...');
 
-  const notionRelations = await getNotionRelations(notion);
+  const notionRelations = await getNotionRelations(notion.client, notion.relations);
+
+  await Promise.all(
+    issuesNotInNotion.map(async issue => {
+      const page = await createPageWithBlocks(
+        notion.client,
+        {
+          parent: { database_id: notion.databaseId },
+          properties: await getPropertiesFromIssue(issue, notionRelations, notion, primaryProject, report),
+        },
+        getBodyChildrenBlocks(issue.body ?? '')
+      );
+      setIssuePage(issuePages, getIssueKey(issue), { pageId: page.id, nodeId: issue.id, properties: null });
+      incrementCount(report, 'created');
+    })
+  );
+}
+
+/**
+ * Refreshes the pages of issues already in Notion, sending only the properties that drifted
+ * from the values computed for the issue. Statuses set in Notion after the GitHub status last
+ * changed are kept.
+ */
+async function updateTasks(
+  notion: SyncOptions['notion'],
+  issuesInNotion: GitHubIssue[],
+  issuePages: Map<string, IssuePage>,
+  primaryProject: string | null,
+  report: SyncReport
+): Promise<void> {
+  core.info('Reconciling Github Issues already in Notion...');
+
+  const notionRelations = await getNotionRelations(notion.client, notion.relations);
 
   await Promise.all(
-    issuesNotInNotion.map(async issue =>
-      notion.pages.create({
-        parent: { database_id: databaseId },
-        properties: await getPropertiesFromIssue(issue, notionRelations),
-      })
-    )
+    issuesInNotion.map(async issue => {
+      const page = findIssuePage(issuePages, getIssueKey(issue));
+      if (!page?.properties) return;
+
+      const properties = await getPropertiesFromIssue(issue, notionRelations, notion, primaryProject, report);
+      const changed = await keepNewerNotionStatus(
+        getChangedProperties(page.properties, properties),
+        {
+          propertyMapping: notion.propertyMapping,
+          primaryProject,
+          page,
+          issueUrl: issue.html_url,
+        }
+      );
+      const changedNames = Object.keys(changed);
+
+      if (changedNames.length === 0) {
+        incrementCount(report, 'unchanged');
+        return;
+      }
+
+      core.info(`Updating ${changedNames.join(', ')} of page ${page.pageId} for ${issue.html_url}`);
+      await notion.client.pages.update({
+        page_id: page.pageId,
+        properties: changed,
+      });
+      incrementCount(report, 'updated');
+    })
   );
 }
 
-async function getPropertiesFromIssue(issue: GitHubIssue, notionRelations: NotionRelationsInterface): Promise<CustomValueMap> {
+async function getPropertiesFromIssue(
+  issue: GitHubIssue,
+  notionRelations: NotionRelationsInterface,
+  notion: SyncOptions['notion'],
+  primaryProject: string | null,
+  report: SyncReport
+): Promise<CustomValueMap> {
   const reporistoryFullName = issue.repository.url.split('/').slice(-2).join('/');
   const org = reporistoryFullName.split('/')[0];
   const repo = reporistoryFullName.split('/')[1];
 
-  const project = await getProject({
+  const projects = await getIssueProjects({
     githubRepo: `${org}/${repo}`,
     issueNumber: issue.number,
+    projectItems: issue.projectItems,
   });
 
-  const issueProperties: CustomValueMap = {
-    Name: properties.title(issue.title),
-    Status: properties.status(project.customFields?.['Status'] as string),
-    Repository: properties.text(repo),
-    Assignee: properties.person(issue.assignees.nodes.map(assignee => assignee.login), notionRelations.users),
-    Labels: properties.multiSelect(issue.labels.nodes.map(label => label.name) ?? []),
-    Issue: properties.url(issue.html_url),
-    Project: properties.relation(project.customFields?.['Project KEY'] as string, notionRelations.projects),
-    'Task group': properties.text("Development")
-  }
+  const assignees = issue.assignees.nodes.map(assignee => assignee.login);
+  recordUnmappedAssignees(report, issue.html_url, assignees, notionRelations.users);
 
-  return issueProperties;
+  return buildProperties(
+    notion.propertyMapping,
+    {
+      title: issue.title,
+      number: issue.number,
+      state: issue.state === 'CLOSED' ? 'closed' : 'open',
+      url: issue.html_url,
+      repository: repo,
+      assignees,
+      labels: issue.labels.nodes.map(label => label.name),
+      milestone: issue.milestone?.title ?? null,
+      author: issue.user?.login ?? null,
+      createdAt: issue.createdAt,
+      updatedAt: issue.updatedAt,
+      closedAt: issue.closedAt,
+      projects: projects.map(project => project.name),
+      projectFields: getProjectFields(projects, primaryProject),
+      nodeId: issue.id,
+    },
+    {
+      userRelations: notionRelations.users,
+      notionProjects: notionRelations.projects,
+      statusMapping: notion.statusMapping,
+    }
+  );
 }